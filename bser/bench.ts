@@ -0,0 +1,60 @@
+import {
+  bench,
+  runBenchmarks,
+} from "https://deno.land/std@0.108.0/testing/bench.ts";
+import * as bser from "./mod.ts";
+
+// Approximates the initial query result for a large tree, encoded as a
+// template in the same way that the server sends it
+function makeQueryResponse(nfiles: number) {
+  const files = [];
+  for (let i = 0; i < nfiles; i++) {
+    files.push({
+      name: `src/module${i % 100}/file${i}.ts`,
+      exists: true,
+      new: false,
+      size: 1024 + i,
+      mtime_ms: 1632355200000 + i,
+      ino: 2 ** 40 + i,
+      type: "f",
+    });
+  }
+  return bser.dumpToBuffer({
+    version: "2021.09.20.00",
+    clock: "c:1632355200:1234:1:42",
+    is_fresh_instance: true,
+    files,
+  }, { templates: true });
+}
+
+const response = makeQueryResponse(100000);
+
+bench({
+  name: "loadFromBuffer 100k file template response",
+  runs: 10,
+  func(b) {
+    b.start();
+    bser.loadFromBuffer(response);
+    b.stop();
+  },
+});
+
+bench({
+  name: "BunserBuf 100k file template response in 64KiB chunks",
+  runs: 10,
+  func(b) {
+    b.start();
+    const bunser = new bser.BunserBuf();
+    for (let i = 0; i < response.length; i += 65536) {
+      const val = bunser.append(response.subarray(i, i + 65536), true);
+      if (typeof val !== "undefined") {
+        break;
+      }
+    }
+    b.stop();
+  },
+});
+
+if (import.meta.main) {
+  await runBenchmarks();
+}
@@ -11,9 +11,9 @@
  *
  * 2^^53 <= N <= 2^53
  *
- * Int64 objects wrap a node Buffer that holds the 8-bytes of int64 data.  These
- * objects operate directly on the buffer which means that if they are created
- * using an existing buffer then setting the value will modify the Buffer, and
+ * Int64 objects wrap a Uint8Array that holds the 8-bytes of int64 data.  These
+ * objects operate directly on the array which means that if they are created
+ * using an existing array then setting the value will modify the array, and
  * vice-versa.
  *
  * Internal Representation
@@ -27,7 +27,6 @@
  * http://en.wikipedia.org/wiki/Double_precision_floating-point_format
  */
 // deno-lint-ignore-file
-import { Buffer } from "https://deno.land/std@0.108.0/node/buffer.ts";
 
 // Useful masks and values for bit twiddling
 var MASK31 = 0x7fffffff, VAL31 = 0x80000000;
@@ -49,31 +48,23 @@ export class Int64 {
   // Min integer value that JS can accurately represent
   static MIN_INT = -Math.pow(2, 53);
 
-  buffer: any;
-  offset: any;
+  buffer: Uint8Array;
+  offset: number;
 
   /**
    * Constructor accepts any of the following argument types:
    *
-   * new Int64(buffer[, offset=0]) - Existing Buffer with byte offset
    * new Int64(Uint8Array[, offset=0]) - Existing Uint8Array with a byte offset
    * new Int64(string)             - Hex string (throws if n is outside int64 range)
    * new Int64(number)             - Number (throws if n is outside int64 range)
    * new Int64(hi, lo)             - Raw bits as two 32-bit values
    */
   constructor(a1: any, a2?: number) {
-    if (a1 instanceof Buffer) {
+    if (a1 instanceof Uint8Array) {
       this.buffer = a1;
       this.offset = a2 || 0;
-    } else if (Object.prototype.toString.call(a1) == "[object Uint8Array]") {
-      // Under Browserify, Buffers can extend Uint8Arrays rather than an
-      // instance of Buffer. We could assume the passed in Uint8Array is actually
-      // a buffer but that won't handle the case where a raw Uint8Array is passed
-      // in. We construct a new Buffer just in case.
-      this.buffer = new Buffer(a1);
-      this.offset = a2 || 0;
     } else {
-      this.buffer = this.buffer || new Buffer(8);
+      this.buffer = new Uint8Array(8);
       this.offset = 0;
       this.setValue.apply(this, arguments as any);
     }
@@ -205,31 +196,27 @@ export class Int64 {
   }
 
   /**
-   * Returns the int64's 8 bytes in a buffer.
+   * Returns the int64's 8 bytes in a Uint8Array.
    *
    * @param {bool} [rawBuffer=false]  If no offset and this is true, return the internal buffer.  Should only be used if
    *                                  you're discarding the Int64 afterwards, as it breaks encapsulation.
    */
-  toBuffer(rawBuffer: boolean) {
+  toBuffer(rawBuffer?: boolean) {
     if (rawBuffer && this.offset === 0) return this.buffer;
 
-    var out = new Buffer(8);
-    this.buffer.copy(out, 0, this.offset, this.offset + 8);
-    return out;
+    return this.buffer.slice(this.offset, this.offset + 8);
   }
 
   /**
    * Copy 8 bytes of int64 into target buffer at target offset.
    *
-   * @param {Buffer} targetBuffer       Buffer to copy into.
+   * @param {Uint8Array} targetBuffer   Uint8Array to copy into.
    * @param {number} [targetOffset=0]   Offset into target buffer.
    */
-  copy(targetBuffer: Buffer, targetOffset: number) {
-    this.buffer.copy(
-      targetBuffer,
+  copy(targetBuffer: Uint8Array, targetOffset?: number) {
+    targetBuffer.set(
+      this.buffer.subarray(this.offset, this.offset + 8),
       targetOffset || 0,
-      this.offset,
-      this.offset + 8,
     );
   }
 
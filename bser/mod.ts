@@ -1,15 +1,22 @@
 /* Copyright 2015-present Facebook, Inc.
  * Licensed under the Apache License, Version 2.0 */
 // deno-lint-ignore-file
-import { Buffer } from "https://deno.land/std@0.108.0/node/buffer.ts";
 import { EventEmitter } from "https://deno.land/std@0.108.0/node/events.ts";
-import os from "https://deno.land/std@0.108.0/node/os.ts";
 import { Int64 } from "./int64.ts";
 
 // BSER uses the local endianness to reduce byte swapping overheads
-// (the protocol is expressly local IPC only).  We need to tell node
-// to use the native endianness when reading various native values.
-const isBigEndian = os.endianness() == "BE";
+// (the protocol is expressly local IPC only).  DataView needs to be
+// told to use the native endianness when reading various native values.
+const isBigEndian = new Uint8Array(new Uint16Array([1]).buffer)[0] == 0;
+const isLittleEndian = !isBigEndian;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Values outside of this range can't be represented as a number
+// without losing integer precision
+const MIN_SAFE_BIGINT = -(2n ** 53n);
+const MAX_SAFE_BIGINT = 2n ** 53n;
 
 // Find the next power-of-2 >= size
 function nextPow2(size: number) {
@@ -17,12 +24,14 @@ function nextPow2(size: number) {
 }
 
 export class Accumulator {
-  buf: ReturnType<typeof Buffer.alloc>;
+  buf: Uint8Array;
+  view: DataView;
   readOffset: number;
   writeOffset: number;
 
   constructor(initsize?: number) {
-    this.buf = Buffer.alloc(nextPow2(initsize || 8192));
+    this.buf = new Uint8Array(nextPow2(initsize || 8192));
+    this.view = new DataView(this.buf.buffer);
 
     this.readOffset = 0;
     this.writeOffset = 0;
@@ -46,7 +55,7 @@ export class Accumulator {
 
     // If we can make room by shunting down, do so
     if (this.readOffset > 0) {
-      this.buf.copy(this.buf, 0, this.readOffset, this.writeOffset);
+      this.buf.copyWithin(0, this.readOffset, this.writeOffset);
       this.writeOffset -= this.readOffset;
       this.readOffset = 0;
     }
@@ -57,24 +66,21 @@ export class Accumulator {
     }
 
     // Allocate a replacement and copy it in
-    const buf = Buffer.alloc(
+    const buf = new Uint8Array(
       nextPow2(this.buf.length + size - this.writeAvail()),
     );
-    this.buf.copy(buf);
+    buf.set(this.buf.subarray(0, this.writeOffset));
     this.buf = buf;
+    this.view = new DataView(buf.buffer);
   }
 
-  append(buf: Buffer | string) {
-    if (Buffer.isBuffer(buf)) {
-      this.reserve(buf.length);
-      buf.copy(this.buf, this.writeOffset, 0, buf.length);
-      this.writeOffset += buf.length;
-    } else {
-      const size = Buffer.byteLength(buf);
-      this.reserve(size);
-      this.buf.write(buf, this.writeOffset);
-      this.writeOffset += size;
+  append(buf: Uint8Array | string) {
+    if (typeof buf === "string") {
+      buf = encoder.encode(buf);
     }
+    this.reserve(buf.length);
+    this.buf.set(buf, this.writeOffset);
+    this.writeOffset += buf.length;
   }
 
   assertReadableSize(size: number) {
@@ -86,9 +92,15 @@ export class Accumulator {
     }
   }
 
-  peekString(size: number) {
+  // Returns a view of the next size bytes.  The view shares memory with
+  // the accumulator, so copy it if it needs to outlive the next append.
+  peekBytes(size: number) {
     this.assertReadableSize(size);
-    return this.buf.toString("utf-8", this.readOffset, this.readOffset + size);
+    return this.buf.subarray(this.readOffset, this.readOffset + size);
+  }
+
+  peekString(size: number) {
+    return decoder.decode(this.peekBytes(size));
   }
 
   readString(size: any) {
@@ -101,15 +113,11 @@ export class Accumulator {
     this.assertReadableSize(size);
     switch (size) {
       case 1:
-        return this.buf.readInt8(this.readOffset);
+        return this.view.getInt8(this.readOffset);
       case 2:
-        return isBigEndian
-          ? this.buf.readInt16BE(this.readOffset)
-          : this.buf.readInt16LE(this.readOffset);
+        return this.view.getInt16(this.readOffset, isLittleEndian);
       case 4:
-        return isBigEndian
-          ? this.buf.readInt32BE(this.readOffset)
-          : this.buf.readInt32LE(this.readOffset);
+        return this.view.getInt32(this.readOffset, isLittleEndian);
       case 8: {
         const big = this.buf.slice(this.readOffset, this.readOffset + 8);
         if (isBigEndian) {
@@ -125,9 +133,15 @@ export class Accumulator {
   }
 
   readInt(bytes: any) {
-    var ival = this.peekInt(bytes);
-    if (ival instanceof Int64 && isFinite(ival.valueOf())) {
-      ival = ival.valueOf();
+    var ival;
+    if (bytes == 8) {
+      // Only pay for an Int64 when the value doesn't fit in a number
+      var big = this.peekBigInt();
+      ival = big >= MIN_SAFE_BIGINT && big < MAX_SAFE_BIGINT
+        ? Number(big)
+        : this.peekInt(8);
+    } else {
+      ival = this.peekInt(bytes);
     }
     this.readOffset += bytes;
     return ival;
@@ -135,9 +149,7 @@ export class Accumulator {
 
   peekDouble() {
     this.assertReadableSize(8);
-    return isBigEndian
-      ? this.buf.readDoubleBE(this.readOffset)
-      : this.buf.readDoubleLE(this.readOffset);
+    return this.view.getFloat64(this.readOffset, isLittleEndian);
   }
 
   readDouble() {
@@ -146,6 +158,17 @@ export class Accumulator {
     return dval;
   }
 
+  peekBigInt() {
+    this.assertReadableSize(8);
+    return this.view.getBigInt64(this.readOffset, isLittleEndian);
+  }
+
+  readBigInt() {
+    var bval = this.peekBigInt();
+    this.readOffset += 8;
+    return bval;
+  }
+
   readAdvance(size: any) {
     if (size > 0) {
       this.assertReadableSize(size);
@@ -160,7 +183,7 @@ export class Accumulator {
 
   writeByte(value: any) {
     this.reserve(1);
-    this.buf.writeInt8(value, this.writeOffset);
+    this.view.setInt8(this.writeOffset, value);
     ++this.writeOffset;
   }
 
@@ -168,21 +191,13 @@ export class Accumulator {
     this.reserve(size);
     switch (size) {
       case 1:
-        this.buf.writeInt8(value, this.writeOffset);
+        this.view.setInt8(this.writeOffset, value);
         break;
       case 2:
-        if (isBigEndian) {
-          this.buf.writeInt16BE(value, this.writeOffset);
-        } else {
-          this.buf.writeInt16LE(value, this.writeOffset);
-        }
+        this.view.setInt16(this.writeOffset, value, isLittleEndian);
         break;
       case 4:
-        if (isBigEndian) {
-          this.buf.writeInt32BE(value, this.writeOffset);
-        } else {
-          this.buf.writeInt32LE(value, this.writeOffset);
-        }
+        this.view.setInt32(this.writeOffset, value, isLittleEndian);
         break;
       default:
         throw new Error("unsupported integer size " + size);
@@ -192,11 +207,13 @@ export class Accumulator {
 
   writeDouble(value: any) {
     this.reserve(8);
-    if (isBigEndian) {
-      this.buf.writeDoubleBE(value, this.writeOffset);
-    } else {
-      this.buf.writeDoubleLE(value, this.writeOffset);
-    }
+    this.view.setFloat64(this.writeOffset, value, isLittleEndian);
+    this.writeOffset += 8;
+  }
+
+  writeBigInt(value: bigint) {
+    this.reserve(8);
+    this.view.setBigInt64(this.writeOffset, value, isLittleEndian);
     this.writeOffset += 8;
   }
 }
@@ -214,6 +231,22 @@ const BSER_FALSE = 0x09;
 const BSER_NULL = 0x0a;
 const BSER_TEMPLATE = 0x0b;
 const BSER_SKIP = 0x0c;
+const BSER_UTF8STRING = 0x0d;
+
+// Capability bits carried in the BSER v2 PDU header
+export const BSER_CAP_DISABLE_UNICODE = 0x1;
+export const BSER_CAP_DISABLE_UNICODE_FOR_ERRORS = 0x2;
+
+export type DumpOptions = {
+  // The PDU version to produce; v2 adds a capabilities word to the
+  // header and encodes strings as BSER_UTF8STRING
+  version?: 1 | 2;
+  // Capability bits to advertise in a v2 header
+  capabilities?: number;
+  // Encode arrays of objects as BSER_TEMPLATE, the same compact form
+  // that the server uses for query results
+  templates?: boolean;
+};
 
 const ST_NEED_PDU = 0; // Need to read and decode PDU length
 const ST_FILL_PDU = 1; // Know the length, need to read whole content
@@ -221,20 +254,62 @@ const ST_FILL_PDU = 1; // Know the length, need to read whole content
 const MAX_INT8 = 127;
 const MAX_INT16 = 32767;
 const MAX_INT32 = 2147483647;
+const MIN_BIGINT64 = -(2n ** 63n);
+const MAX_BIGINT64 = 2n ** 63n - 1n;
+
+export type LoadOptions = {
+  // Decode every BSER_INT64 value as a bigint rather than as a number
+  // (or an Int64 when the number would lose precision)
+  bigint?: boolean;
+  // Limits applied while decoding, to guard against malformed or hostile
+  // input.  Anything left unset is unlimited, except for maxDepth which
+  // defaults to DEFAULT_MAX_DEPTH so that we fail before the stack does.
+  maxPduSize?: number;
+  maxDepth?: number;
+  maxItems?: number;
+  maxStringLength?: number;
+};
+
+export const DEFAULT_MAX_DEPTH = 1024;
+
+// Raised when the input exceeds one of the limits in LoadOptions
+export class BserLimitError extends Error {
+  limit: "maxPduSize" | "maxDepth" | "maxItems" | "maxStringLength";
+  value: number;
+  max: number;
+
+  constructor(limit: BserLimitError["limit"], value: number, max: number) {
+    super(
+      "bser " + limit + " exceeded: " + value + " is larger than " + max,
+    );
+    this.name = "BserLimitError";
+    this.limit = limit;
+    this.value = value;
+    this.max = max;
+  }
+}
 
 export class BunserBuf extends EventEmitter {
   buf: Accumulator;
   state: any;
   pduLen: any;
-
-  constructor() {
+  // Version and capabilities from the header of the most recent PDU
+  pduVersion?: 1 | 2;
+  capabilities?: number;
+  options: LoadOptions;
+  // How many containers deep we are in the PDU being decoded
+  depth: number;
+
+  constructor(options: LoadOptions = {}) {
     super();
 
     this.buf = new Accumulator();
     this.state = ST_NEED_PDU;
+    this.options = options;
+    this.depth = 0;
   }
 
-  append(buf: Buffer, synchronous?: any) {
+  append(buf: Uint8Array | string, synchronous?: any) {
     if (synchronous) {
       this.buf.append(buf);
       return this.process(synchronous);
@@ -278,13 +353,33 @@ export class BunserBuf extends EventEmitter {
       }
       // Validate BSER header
       this.expectCode(0);
-      this.expectCode(1);
+      var version: any = this.buf.readInt(1);
+      var headerLen = 2;
+      if (version == 2) {
+        // v2 carries a raw int32 capabilities word before the length
+        if (this.buf.readAvail() < 4) {
+          this.buf.readAdvance(-headerLen);
+          return;
+        }
+        this.capabilities = this.buf.readInt(4) as number;
+        headerLen += 4;
+      } else if (version == 1) {
+        this.capabilities = 0;
+      } else {
+        this.buf.readAdvance(-1);
+        this.raise("unsupported bser version " + version);
+      }
       this.pduLen = this.decodeInt(true /* relaxed */);
       if (this.pduLen === false) {
         // Need more data, walk backwards
-        this.buf.readAdvance(-2);
+        this.buf.readAdvance(-headerLen);
         return;
       }
+      this.pduVersion = version;
+      if (this.pduLen < 0) {
+        this.raise("invalid bser pdu length " + this.pduLen);
+      }
+      this.checkLimit("maxPduSize", this.pduLen);
       // Ensure that we have a big enough buffer to read the rest of the PDU
       this.buf.reserve(this.pduLen);
       this.state = ST_FILL_PDU;
@@ -297,12 +392,13 @@ export class BunserBuf extends EventEmitter {
       }
 
       // We have enough to decode it
+      this.depth = 0;
       var val = this.decodeAny();
+      this.state = ST_NEED_PDU;
       if (synchronous) {
         return val;
       }
       this.emit("value", val);
-      this.state = ST_NEED_PDU;
     }
 
     if (!synchronous && this.buf.readAvail() > 0) {
@@ -316,10 +412,12 @@ export class BunserBuf extends EventEmitter {
         this.buf.buf.length + " (" + this.buf.readAvail() +
         " readable) at offset " + this.buf.readOffset + " buffer: " +
         JSON.stringify(
-          this.buf.buf.slice(
-            this.buf.readOffset,
-            this.buf.readOffset + 32,
-          ).toJSON(),
+          Array.from(
+            this.buf.buf.subarray(
+              this.buf.readOffset,
+              this.buf.readOffset + 32,
+            ),
+          ),
         ),
     );
   }
@@ -331,13 +429,39 @@ export class BunserBuf extends EventEmitter {
     }
   }
 
+  checkLimit(limit: BserLimitError["limit"], value: number) {
+    var max = this.options[limit];
+    if (limit == "maxDepth" && typeof (max) == "undefined") {
+      max = DEFAULT_MAX_DEPTH;
+    }
+    if (typeof (max) != "undefined" && value > max) {
+      throw new BserLimitError(limit, Number(value), max);
+    }
+  }
+
+  // Decode the item count of a container, entering it
+  decodeCount() {
+    this.checkLimit("maxDepth", ++this.depth);
+    var nitems = this.decodeInt() as number;
+    if (nitems < 0) {
+      this.raise("invalid bser item count " + nitems);
+    }
+    this.checkLimit("maxItems", nitems);
+    return nitems;
+  }
+
   decodeAny() {
     var code = this.buf.peekInt(1);
     switch (code) {
       case BSER_INT8:
       case BSER_INT16:
       case BSER_INT32:
+        return this.decodeInt();
       case BSER_INT64:
+        if (this.options.bigint) {
+          this.buf.readAdvance(1);
+          return this.buf.readBigInt();
+        }
         return this.decodeInt();
       case BSER_REAL:
         this.buf.readAdvance(1);
@@ -352,6 +476,7 @@ export class BunserBuf extends EventEmitter {
         this.buf.readAdvance(1);
         return null;
       case BSER_STRING:
+      case BSER_UTF8STRING:
         return this.decodeString();
       case BSER_ARRAY:
         return this.decodeArray();
@@ -366,30 +491,44 @@ export class BunserBuf extends EventEmitter {
 
   decodeArray(): any {
     this.expectCode(BSER_ARRAY);
-    var nitems = this.decodeInt();
+    var nitems = this.decodeCount();
     var arr = [];
     for (var i = 0; i < nitems; ++i) {
       arr.push(this.decodeAny());
     }
+    this.depth--;
     return arr;
   }
 
   decodeObject() {
     this.expectCode(BSER_OBJECT);
-    var nitems = this.decodeInt();
+    var nitems = this.decodeCount();
     var res: { [k: string]: any } = {};
     for (var i = 0; i < nitems; ++i) {
       var key = this.decodeString();
       var val = this.decodeAny();
       res[key] = val;
     }
+    this.depth--;
     return res;
   }
 
   decodeTemplate() {
     this.expectCode(BSER_TEMPLATE);
     var keys = this.decodeArray();
-    var nitems = this.decodeInt();
+    var nitems = this.decodeCount();
+    // Each item takes at least a byte for each key, so the rest of the
+    // PDU bounds the count; without any keys, nothing would
+    if (
+      keys.length == 0
+        ? nitems > 0
+        : nitems * keys.length > this.buf.readAvail()
+    ) {
+      this.raise(
+        "invalid bser template count " + nitems + " for " + keys.length +
+          " keys",
+      );
+    }
     var arr = [];
     for (var i = 0; i < nitems; ++i) {
       var obj: { [k: string]: any } = {};
@@ -403,12 +542,21 @@ export class BunserBuf extends EventEmitter {
       }
       arr.push(obj);
     }
+    this.depth--;
     return arr;
   }
 
   decodeString() {
-    this.expectCode(BSER_STRING);
-    var len = this.decodeInt();
+    // Byte strings and v2 UTF-8 strings share the same layout
+    var code = this.buf.readInt(1);
+    if (code != BSER_STRING && code != BSER_UTF8STRING) {
+      this.raise("expected bser string opcode but got " + code);
+    }
+    var len = this.decodeInt() as number;
+    if (len < 0) {
+      this.raise("invalid bser string length " + len);
+    }
+    this.checkLimit("maxStringLength", len);
     return this.buf.readString(len);
   }
 
@@ -451,8 +599,8 @@ export class BunserBuf extends EventEmitter {
 }
 
 // synchronously BSER decode a string and return the value
-export function loadFromBuffer(input: any) {
-  var buf = new BunserBuf();
+export function loadFromBuffer(input: any, options?: LoadOptions) {
+  var buf = new BunserBuf(options);
   var result = buf.append(input, true);
   if (buf.buf.readAvail()) {
     throw Error(
@@ -467,10 +615,65 @@ export function loadFromBuffer(input: any) {
   return result;
 }
 
+// A TransformStream that decodes a stream of bytes into a stream of
+// values, one per PDU.  Values are decoded synchronously as the data
+// arrives, so backpressure from the readable side propagates back to
+// whoever is writing the bytes.
+export class BunserStream extends TransformStream<Uint8Array, any> {
+  constructor(options?: LoadOptions, readableStrategy?: QueuingStrategy<any>) {
+    const bunser = new BunserBuf(options);
+    const transformer: Transformer<Uint8Array, any> = {
+      transform(chunk, controller) {
+        bunser.buf.append(chunk);
+        while (bunser.buf.readAvail() > 0) {
+          const val = bunser.process(true);
+          if (typeof val === "undefined") {
+            // Need more data
+            return;
+          }
+          controller.enqueue(val);
+        }
+      },
+      flush(controller) {
+        if (bunser.buf.readAvail()) {
+          controller.error(
+            new Error(
+              "stream ended with " + bunser.buf.readAvail() +
+                " bytes of an incomplete PDU",
+            ),
+          );
+        }
+      },
+    };
+    super(transformer, undefined, readableStrategy);
+  }
+}
+
+// Decode each PDU from a byte stream, such as the readable side of a
+// Deno.Conn, and yield the values as they become available
+export async function* decodeStream(
+  readable: ReadableStream<Uint8Array>,
+  options?: LoadOptions,
+) {
+  const reader = readable.pipeThrough(new BunserStream(options)).getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      yield value;
+    }
+  } finally {
+    // Stop reading from the source if the consumer bailed out early
+    await reader.cancel();
+  }
+}
+
 // Byteswap an arbitrary buffer, flipping from one endian
 // to the other, returning a new buffer with the resultant data
 function byteswap64(buf: any) {
-  var swap = Buffer.alloc(buf.length);
+  var swap = new Uint8Array(buf.length);
   for (var i = 0; i < buf.length; i++) {
     swap[i] = buf[buf.length - 1 - i];
   }
@@ -510,8 +713,75 @@ function dump_int(buf: any, val: any) {
   }
 }
 
-function dump_any(buf: any, val: any) {
+function dump_bigint(buf: any, val: bigint) {
+  if (val < MIN_BIGINT64 || val > MAX_BIGINT64) {
+    throw new RangeError(val + " is outside Int64 range");
+  }
+  if (val >= -MAX_INT32 && val <= MAX_INT32) {
+    dump_int(buf, Number(val));
+    return;
+  }
+  buf.writeByte(BSER_INT64);
+  buf.writeBigInt(val);
+}
+
+function is_plain_object(val: any) {
+  return typeof (val) == "object" && val !== null && !Array.isArray(val) &&
+    !(val instanceof Int64) && !(val instanceof Uint8Array);
+}
+
+// Only non-empty arrays made up entirely of objects benefit from
+// being encoded as a template, and then only if there are some keys
+function is_templatable(arr: any[]) {
+  return arr.length > 0 && arr.every(is_plain_object) &&
+    arr.some((obj) =>
+      Object.keys(obj).some((key) => typeof (obj[key]) != "undefined")
+    );
+}
+
+function dump_template(buf: any, arr: any[], options: DumpOptions) {
+  // The key list is the union of the defined keys, in the order in
+  // which they are first seen
+  var keys: string[] = [];
+  var seen = new Set<string>();
+  for (var i = 0; i < arr.length; ++i) {
+    for (var key of Object.keys(arr[i])) {
+      if (typeof (arr[i][key]) != "undefined" && !seen.has(key)) {
+        seen.add(key);
+        keys.push(key);
+      }
+    }
+  }
+
+  buf.writeByte(BSER_TEMPLATE);
+  dump_any(buf, keys, options);
+  dump_int(buf, arr.length);
+  for (var i = 0; i < arr.length; ++i) {
+    for (var k = 0; k < keys.length; ++k) {
+      var v = arr[i][keys[k]];
+      if (typeof (v) == "undefined") {
+        // Missing from this object
+        buf.writeByte(BSER_SKIP);
+        continue;
+      }
+      try {
+        dump_any(buf, v, options);
+      } catch (e) {
+        throw new Error(
+          (e as Error).message +
+            " (while serializing template property with name `" + keys[k] +
+            "')",
+        );
+      }
+    }
+  }
+}
+
+function dump_any(buf: any, val: any, options: DumpOptions) {
   switch (typeof (val)) {
+    case "bigint":
+      dump_bigint(buf, val);
+      return;
     case "number":
       // check if it is an integer or a float
       if (isFinite(val) && Math.floor(val) === val) {
@@ -522,9 +792,10 @@ function dump_any(buf: any, val: any) {
       }
       return;
     case "string":
-      buf.writeByte(BSER_STRING);
-      dump_int(buf, Buffer.byteLength(val));
-      buf.append(val);
+      buf.writeByte(options.version == 2 ? BSER_UTF8STRING : BSER_STRING);
+      var bytes = encoder.encode(val);
+      dump_int(buf, bytes.length);
+      buf.append(bytes);
       return;
     case "boolean":
       buf.writeByte(val ? BSER_TRUE : BSER_FALSE);
@@ -538,11 +809,22 @@ function dump_any(buf: any, val: any) {
         dump_int64(buf, val);
         return;
       }
+      if (val instanceof Uint8Array) {
+        // Raw bytes are always sent as a byte string
+        buf.writeByte(BSER_STRING);
+        dump_int(buf, val.length);
+        buf.append(val);
+        return;
+      }
       if (Array.isArray(val)) {
+        if (options.templates && is_templatable(val)) {
+          dump_template(buf, val, options);
+          return;
+        }
         buf.writeByte(BSER_ARRAY);
         dump_int(buf, val.length);
         for (var i = 0; i < val.length; ++i) {
-          dump_any(buf, val[i]);
+          dump_any(buf, val[i], options);
         }
         return;
       }
@@ -566,9 +848,9 @@ function dump_any(buf: any, val: any) {
           // Don't include it
           continue;
         }
-        dump_any(buf, key);
+        dump_any(buf, key, options);
         try {
-          dump_any(buf, v);
+          dump_any(buf, v, options);
         } catch (e) {
           throw new Error(
             e.message + " (while serializing object property with name `" +
@@ -584,23 +866,28 @@ function dump_any(buf: any, val: any) {
 }
 
 // BSER encode value and return a buffer of the contents
-export function dumpToBuffer(val: any) {
+export function dumpToBuffer(val: any, options: DumpOptions = {}) {
+  var version = options.version || 1;
   var buf = new Accumulator();
   // Build out the header
   buf.writeByte(0);
-  buf.writeByte(1);
+  buf.writeByte(version);
+  if (version == 2) {
+    buf.writeInt(options.capabilities || 0, 4);
+  }
   // Reserve room for an int32 to hold our PDU length
+  var lenOffset = buf.writeOffset + 1;
   buf.writeByte(BSER_INT32);
   buf.writeInt(0, 4); // We'll come back and fill this in at the end
 
-  dump_any(buf, val);
+  dump_any(buf, val, { ...options, version });
 
   // Compute PDU length
   var off = buf.writeOffset;
-  var len = off - 7 /* the header length */;
-  buf.writeOffset = 3; // The length value to fill in
+  var len = off - (lenOffset + 4) /* the header length */;
+  buf.writeOffset = lenOffset; // The length value to fill in
   buf.writeInt(len, 4); // write the length in the space we reserved
   buf.writeOffset = off;
 
-  return buf.buf.slice(0, off);
+  return buf.buf.subarray(0, off);
 }
@@ -1,11 +1,17 @@
 // deno-lint-ignore-file camelcase,no-explicit-any,no-inner-declarations
 import {
   assertEquals,
+  assertRejects,
   assertStrictEquals,
+  assertThrows,
 } from "https://deno.land/std@0.108.0/testing/asserts.ts";
 import { Int64 } from "./int64.ts";
 import * as bser from "./mod.ts";
 
+function toHex(buf: Uint8Array) {
+  return Array.from(buf, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
 Deno.test("loadFromBuffer", () => {
   // This is a hard-coded template representation from the C test suite
   const template = "\x00\x01\x03\x28" +
@@ -87,11 +93,245 @@ Deno.test("dumpToBuffer", () => {
   // Dump numbers without fraction to integers
   var buffer;
   buffer = bser.dumpToBuffer(1);
-  assertEquals(buffer.toString("hex"), "000105020000000301");
+  assertEquals(toHex(buffer), "000105020000000301");
   buffer = bser.dumpToBuffer(1.0);
-  assertEquals(buffer.toString("hex"), "000105020000000301");
+  assertEquals(toHex(buffer), "000105020000000301");
 
   // Dump numbers with fraction to double
   buffer = bser.dumpToBuffer(1.1);
-  assertEquals(buffer.toString("hex"), "00010509000000079a9999999999f13f");
+  assertEquals(toHex(buffer), "00010509000000079a9999999999f13f");
+});
+
+Deno.test("bser v2", () => {
+  // Strings are encoded as BSER_UTF8STRING and the header carries the
+  // capabilities word
+  let buffer = bser.dumpToBuffer("hi", { version: 2, capabilities: 1 });
+  assertEquals(toHex(buffer), "00020100000005050000000d03026869");
+  assertEquals(bser.loadFromBuffer(buffer), "hi");
+
+  // Raw bytes are always sent as byte strings
+  buffer = bser.dumpToBuffer(new TextEncoder().encode("hi"), { version: 2 });
+  assertEquals(toHex(buffer), "00020000000005050000000203026869");
+
+  const val = { name: "ünïcødé", list: [1, "two", { three: 3 }] };
+  assertEquals(
+    bser.loadFromBuffer(bser.dumpToBuffer(val, { version: 2 })),
+    val,
+  );
+
+  // The decoder records the header of the last PDU it saw
+  const bunser = new bser.BunserBuf();
+  bunser.append(bser.dumpToBuffer(1, { version: 2, capabilities: 2 }), true);
+  assertEquals(bunser.pduVersion, 2);
+  assertEquals(bunser.capabilities, 2);
+});
+
+Deno.test("bser v2 partial header", () => {
+  const encoded = bser.dumpToBuffer("hello", { version: 2 });
+  const bunser = new bser.BunserBuf();
+  const values: any[] = [];
+  for (let i = 0; i < encoded.length; i++) {
+    const val = bunser.append(encoded.slice(i, i + 1), true);
+    if (typeof val !== "undefined") {
+      values.push(val);
+    }
+  }
+  assertEquals(values, ["hello"]);
+});
+
+Deno.test("bigint", () => {
+  const big = 0x0123456789abcdefn;
+  const encoded = bser.dumpToBuffer(big);
+  assertEquals(toHex(encoded), "0001050900000006efcdab8967452301");
+
+  // By default we get the legacy Int64 wrapper for imprecise values
+  assertEquals(bser.loadFromBuffer(encoded), new Int64("0x0123456789abcdef"));
+  assertStrictEquals(bser.loadFromBuffer(encoded, { bigint: true }), big);
+
+  // Small bigints are encoded using the narrowest integer type
+  assertEquals(toHex(bser.dumpToBuffer(1n)), "000105020000000301");
+
+  const values = [-(2n ** 63n), 2n ** 63n - 1n, 2147483648n, -2147483649n];
+  for (const val of values) {
+    assertStrictEquals(
+      bser.loadFromBuffer(bser.dumpToBuffer(val), { bigint: true }),
+      val,
+    );
+  }
+  assertThrows(() => bser.dumpToBuffer(2n ** 63n), RangeError);
+
+  // Numbers that required 64 bits to encode are returned as bigint too
+  const decoded = bser.loadFromBuffer(
+    bser.dumpToBuffer({ ino: 2 ** 40, size: 10 }),
+    { bigint: true },
+  );
+  assertEquals(decoded, { ino: 2n ** 40n, size: 10 });
+});
+
+function streamOf(chunks: Uint8Array[]) {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(chunk));
+      controller.close();
+    },
+  });
+}
+
+Deno.test("BunserStream", async () => {
+  const encoded = new Uint8Array([
+    ...bser.dumpToBuffer({ first: 1 }),
+    ...bser.dumpToBuffer("second", { version: 2 }),
+    ...bser.dumpToBuffer([3]),
+  ]);
+  // Feed the PDUs in awkwardly sized chunks
+  const chunks = [];
+  for (let i = 0; i < encoded.length; i += 5) {
+    chunks.push(encoded.subarray(i, i + 5));
+  }
+
+  const values = [];
+  for await (const val of bser.decodeStream(streamOf(chunks))) {
+    values.push(val);
+  }
+  assertEquals(values, [{ first: 1 }, "second", [3]]);
+});
+
+Deno.test("BunserStream errors", async () => {
+  const truncated = bser.dumpToBuffer("hello").subarray(0, 9);
+  await assertRejects(
+    async () => {
+      for await (
+        const _ of bser.decodeStream(streamOf([truncated]))
+      ) {
+        // Nothing
+      }
+    },
+    Error,
+    "incomplete PDU",
+  );
+
+  const garbage = new Uint8Array([0, 9, 0]);
+  await assertRejects(
+    async () => {
+      for await (const _ of bser.decodeStream(streamOf([garbage]))) {
+        // Nothing
+      }
+    },
+    Error,
+    "unsupported bser version 9",
+  );
+});
+
+Deno.test("dumpToBuffer templates", () => {
+  const val = [
+    { name: "fred", age: 20 },
+    { name: "pete", age: 30 },
+    { age: 25 },
+  ];
+  // Matches the body of the template from the C test suite
+  const encoded = bser.dumpToBuffer(val, { templates: true });
+  assertEquals(
+    toHex(encoded.slice(7)),
+    "0b0003020203046e616d6502030361676503030203046672656403140203" +
+      "0470657465031e0c0319",
+  );
+  assertEquals(bser.loadFromBuffer(encoded), val);
+
+  // Keys with undefined values are skipped, and nested arrays of
+  // objects are templated too
+  const nested = {
+    files: [
+      { name: "a", exists: true, mode: undefined },
+      { name: "b", exists: false, children: [{ x: 1 }, { y: "2" }] },
+    ],
+    empty: [],
+    mixed: [{ a: 1 }, 2],
+  };
+  assertEquals(
+    bser.loadFromBuffer(
+      bser.dumpToBuffer(nested, { templates: true, version: 2 }),
+    ),
+    {
+      files: [
+        { name: "a", exists: true },
+        { name: "b", exists: false, children: [{ x: 1 }, { y: "2" }] },
+      ],
+      empty: [],
+      mixed: [{ a: 1 }, 2],
+    },
+  );
+
+  // Objects without any keys aren't worth a template
+  const empty = bser.dumpToBuffer([{}, { a: undefined }], { templates: true });
+  assertEquals(empty[7], 0x00);
+  assertEquals(bser.loadFromBuffer(empty), [{}, {}]);
+
+  // A template claiming more items than the PDU can hold is rejected,
+  // rather than looping over items that take up no space
+  assertThrows(
+    () =>
+      bser.loadFromBuffer(
+        new Uint8Array([0, 1, 3, 9, 0x0b, 0, 3, 0, 5, 0xff, 0xff, 0xff, 0x7f]),
+      ),
+    Error,
+    "invalid bser template count 2147483647 for 0 keys",
+  );
+  assertThrows(
+    () =>
+      bser.loadFromBuffer(
+        new Uint8Array([0, 1, 3, 10, 0x0b, 0, 3, 1, 2, 3, 1, 0x61, 3, 100]),
+      ),
+    Error,
+    "invalid bser template count 100 for 1 keys",
+  );
+});
+
+Deno.test("decoding limits", () => {
+  function limitError(input: Uint8Array, options: bser.LoadOptions) {
+    return assertThrows(
+      () => bser.loadFromBuffer(input, options),
+      bser.BserLimitError,
+    ) as bser.BserLimitError;
+  }
+
+  const val = { list: [[1, 2, 3], "hello"] };
+  const encoded = bser.dumpToBuffer(val);
+  assertEquals(
+    bser.loadFromBuffer(encoded, {
+      maxPduSize: encoded.length - 7,
+      maxDepth: 3,
+      maxItems: 3,
+      maxStringLength: 5,
+    }),
+    val,
+  );
+
+  let err = limitError(encoded, { maxPduSize: 16 });
+  assertEquals(err.limit, "maxPduSize");
+  assertEquals(err.value, encoded.length - 7);
+  assertEquals(limitError(encoded, { maxDepth: 2 }).limit, "maxDepth");
+  assertEquals(limitError(encoded, { maxItems: 2 }).limit, "maxItems");
+  err = limitError(encoded, { maxStringLength: 4 });
+  assertEquals(err.limit, "maxStringLength");
+  assertEquals(err.max, 4);
+
+  // The header is checked before we try to buffer the claimed length
+  const huge = new Uint8Array([0, 1, 5, 0xff, 0xff, 0xff, 0x7f]);
+  const bunser = new bser.BunserBuf({ maxPduSize: 1024 * 1024 });
+  assertThrows(() => bunser.append(huge, true), bser.BserLimitError);
+  assertEquals(bunser.buf.buf.length, 8192);
+
+  // Deeply nested input fails with a typed error by default
+  let nested: any = [];
+  for (let i = 0; i < bser.DEFAULT_MAX_DEPTH; i++) {
+    nested = [nested];
+  }
+  assertEquals(limitError(bser.dumpToBuffer(nested), {}).limit, "maxDepth");
+
+  // Negative lengths are rejected rather than silently ignored
+  assertThrows(
+    () => bser.loadFromBuffer(new Uint8Array([0, 1, 3, 3, 2, 3, 0xff])),
+    Error,
+    "invalid bser string length -1",
+  );
 });
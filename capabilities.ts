@@ -0,0 +1,90 @@
+/**
+ * The capabilities that the server can report, and the version that
+ * introduced each of them.  Servers older than 3.8 can't report their
+ * capabilities, so Client works them out from this table instead.
+ * See https://facebook.github.io/watchman/docs/capabilities.html
+ */
+
+// The version that shipped the original commands, terms and fields
+const base = "3.0";
+
+export const capabilityVersions: { readonly [name: string]: string } = {
+  "cmd-clock": base,
+  "cmd-find": base,
+  "cmd-flush-subscriptions": "4.8",
+  "cmd-get-config": "3.8",
+  "cmd-get-pid": base,
+  "cmd-get-sockname": base,
+  "cmd-list-capabilities": "3.8",
+  "cmd-log": base,
+  "cmd-log-level": base,
+  "cmd-query": base,
+  "cmd-shutdown-server": base,
+  "cmd-since": base,
+  "cmd-state-enter": "4.4",
+  "cmd-state-leave": "4.4",
+  "cmd-subscribe": base,
+  "cmd-trigger": base,
+  "cmd-trigger-del": base,
+  "cmd-trigger-list": base,
+  "cmd-unsubscribe": base,
+  "cmd-version": base,
+  "cmd-watch": base,
+  "cmd-watch-del": base,
+  "cmd-watch-del-all": "3.1.1",
+  "cmd-watch-list": base,
+  "cmd-watch-project": "3.1",
+
+  "field-cclock": base,
+  "field-content.sha1hex": "4.9",
+  "field-ctime": base,
+  "field-ctime_f": base,
+  "field-ctime_ms": base,
+  "field-ctime_ns": base,
+  "field-ctime_us": base,
+  "field-dev": base,
+  "field-exists": base,
+  "field-gid": base,
+  "field-ino": base,
+  "field-mode": base,
+  "field-mtime": base,
+  "field-mtime_f": base,
+  "field-mtime_ms": base,
+  "field-mtime_ns": base,
+  "field-mtime_us": base,
+  "field-name": base,
+  "field-new": base,
+  "field-nlink": base,
+  "field-oclock": base,
+  "field-size": base,
+  "field-symlink_target": "4.9",
+  "field-type": base,
+  "field-uid": base,
+
+  "term-allof": base,
+  "term-anyof": base,
+  "term-dirname": "3.1",
+  "term-empty": base,
+  "term-exists": base,
+  "term-false": base,
+  "term-idirname": "3.1",
+  "term-imatch": base,
+  "term-iname": base,
+  "term-ipcre": base,
+  "term-match": base,
+  "term-name": base,
+  "term-not": base,
+  "term-pcre": base,
+  "term-since": base,
+  "term-size": base,
+  "term-suffix": base,
+  "term-true": base,
+  "term-type": base,
+
+  relative_root: "3.3",
+  "scm-since": "4.9",
+  // The first release after 4.9.0, which only took a single suffix
+  "suffix-set": "2020.08.17",
+  wildmatch: "3.7",
+  "wildmatch-multislash": "3.7",
+};
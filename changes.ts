@@ -0,0 +1,50 @@
+// deno-lint-ignore-file camelcase
+/**
+ * A normalized view of subscription updates, with each file classified
+ * as created, modified or deleted rather than left as raw field records.
+ */
+import type { Clock, FieldName, FileFields, ScmClock } from "./commands.ts";
+import type { FileType } from "./expression.ts";
+
+export type ChangeType = "created" | "modified" | "deleted";
+
+export type FileChange = {
+  type: ChangeType;
+  // The absolute path to the file
+  path: string;
+  // The path relative to the directory passed to watchProject
+  relativePath: string;
+  // What the file is, unless it was deleted
+  fileType?: FileType;
+  size?: number;
+  // In seconds since the epoch
+  mtime?: number;
+};
+
+export type ChangeEvent = {
+  // The directory passed to watchProject
+  root: string;
+  subscription: string;
+  clock: Clock | ScmClock;
+  // Set when changes may have been missed, in which case every
+  // matching file is reported
+  is_fresh_instance: boolean;
+  changes: FileChange[];
+};
+
+// The fields that a subscription needs for its updates to be classified
+export const changeFields: FieldName[] = [
+  "name",
+  "new",
+  "exists",
+  "mtime",
+  "size",
+  "type",
+];
+
+export function classifyChange(file: Partial<FileFields>): ChangeType {
+  if (file.exists === false) {
+    return "deleted";
+  }
+  return file.new ? "created" : "modified";
+}
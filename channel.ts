@@ -0,0 +1,140 @@
+// What to do with a value that arrives while the buffer is full
+export type OverflowPolicy = "drop-oldest" | "drop-newest" | "error";
+
+export type BufferOptions = {
+  // How many undelivered values to hold on to; unbounded by default
+  bufferSize?: number;
+  overflow?: OverflowPolicy;
+};
+
+// Raised from the iterator when the consumer fell too far behind and
+// the overflow policy is "error"
+export class BufferOverflowError extends Error {
+  bufferSize: number;
+
+  constructor(bufferSize: number) {
+    super(`consumer fell more than ${bufferSize} values behind`);
+    this.name = "BufferOverflowError";
+    this.bufferSize = bufferSize;
+  }
+}
+
+type Waiter<T> = {
+  resolve: (result: IteratorResult<T>) => void;
+  reject: (error: unknown) => void;
+};
+
+/**
+ * An async iterator fed by push-style callbacks, such as unilateral
+ * PDUs from the server.  Values are buffered until the consumer asks
+ * for them; errors are delivered once the buffered values are drained.
+ */
+export class Channel<T> implements AsyncIterableIterator<T> {
+  #buffer: T[] = [];
+  #waiters: Waiter<T>[] = [];
+  #error?: unknown;
+  #done = false;
+  #options: BufferOptions;
+  #onReturn?: () => unknown;
+
+  constructor(options: BufferOptions = {}, onReturn?: () => unknown) {
+    this.#options = options;
+    this.#onReturn = onReturn;
+  }
+
+  push(value: T) {
+    if (this.#done || this.#error) {
+      return;
+    }
+    const waiter = this.#waiters.shift();
+    if (waiter) {
+      waiter.resolve({ value, done: false });
+      return;
+    }
+
+    const { bufferSize = Infinity, overflow = "drop-oldest" } = this.#options;
+    if (this.#buffer.length >= bufferSize) {
+      switch (overflow) {
+        case "drop-newest":
+          return;
+        case "error":
+          this.fail(new BufferOverflowError(bufferSize));
+          return;
+        default:
+          this.#buffer.shift();
+      }
+    }
+    this.#buffer.push(value);
+  }
+
+  // End the iteration with an error, after any buffered values
+  fail(error: unknown) {
+    if (this.#done || this.#error) {
+      return;
+    }
+    this.#error = error;
+    this.#settle();
+  }
+
+  // End the iteration normally, after any buffered values
+  close() {
+    if (this.#done) {
+      return;
+    }
+    this.#done = true;
+    this.#settle();
+  }
+
+  // Wake up anyone waiting for the next value now that there won't be
+  // one.  Without waiters, next() delivers the outcome when asked.
+  #settle() {
+    if (this.#buffer.length || !this.#waiters.length) {
+      return;
+    }
+    const error = this.#error;
+    this.#error = undefined;
+    this.#done = true;
+    for (const waiter of this.#waiters.splice(0)) {
+      if (error) {
+        waiter.reject(error);
+      } else {
+        waiter.resolve({ value: undefined, done: true });
+      }
+    }
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this.#buffer.length) {
+      return Promise.resolve({ value: this.#buffer.shift()!, done: false });
+    }
+    if (this.#error) {
+      const error = this.#error;
+      this.#done = true;
+      this.#error = undefined;
+      return Promise.reject(error);
+    }
+    if (this.#done) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+    return new Promise((resolve, reject) => {
+      this.#waiters.push({ resolve, reject });
+    });
+  }
+
+  // Called when the consumer breaks out of a `for await` loop
+  async return(): Promise<IteratorResult<T>> {
+    this.#buffer = [];
+    this.#error = undefined;
+    this.close();
+    const onReturn = this.#onReturn;
+    this.#onReturn = undefined;
+    if (onReturn) {
+      await onReturn();
+    }
+    return { value: undefined, done: true };
+  }
+
+  [Symbol.asyncIterator]() {
+    return this;
+  }
+}
@@ -0,0 +1,357 @@
+/**
+ * Command line tools in the style of watchman-wait and watchman-make.
+ *
+ * ```sh
+ * deno install --allow-all --name watchman-deno https://deno.land/x/watchman/cli.ts
+ * watchman-deno wait -p '**\/*.ts' -t 30 src
+ * watchman-deno make -p '**\/*.ts' --settle 0.5 -- deno test
+ * ```
+ */
+import { parse } from "https://deno.land/std@0.108.0/flags/mod.ts";
+import { join, resolve } from "https://deno.land/std@0.108.0/path/mod.ts";
+import * as expr from "./expression.ts";
+import type { Expression } from "./expression.ts";
+import { Watchman } from "./watchman.ts";
+
+const usage = `Usage:
+  cli.ts wait [-p PATTERN]... [-t SECONDS] [-m COUNT] [PATH]...
+  cli.ts make [-p PATTERN]... [--settle SECONDS] [--debounce SECONDS]
+              [PATH]... -- COMMAND [ARG]...
+
+Patterns are wildmatch globs relative to each PATH, which defaults to the
+current directory.  Without any, every file counts.
+
+wait prints the files that change, relative to the current directory, and
+exits once COUNT of them have (1 by default, 0 to wait forever).  It exits
+with status 2 if SECONDS pass first.
+
+make runs COMMAND each time files change, killing the previous run if it
+is still going.  Changes are batched until none arrive for --settle
+SECONDS (0.2 by default), and runs start at most once every --debounce
+SECONDS.  "run" is another name for make.`;
+
+type PathOptions = {
+  // The directories to watch; the current directory if none are given
+  paths?: string[];
+  // Only count changes to files matching one of these wildmatch patterns
+  patterns?: string[];
+};
+
+export type WaitOptions = PathOptions & {
+  // Give up after this many milliseconds
+  timeout?: number;
+  // Stop once this many files have changed; 0 waits until the timeout
+  maxEvents?: number;
+  // Called with each changed file, relative to the current directory
+  onChange?: (path: string) => void;
+};
+
+export type WaitResult = {
+  // The files that changed, relative to the current directory
+  files: string[];
+  timedOut: boolean;
+};
+
+export type MakeOptions = PathOptions & {
+  command: string[];
+  // Milliseconds to wait for changes to stop arriving before running
+  settle?: number;
+  // The least number of milliseconds between the start of each run
+  debounce?: number;
+  // Stop watching and kill any run that is still going
+  signal?: AbortSignal;
+  // Called as each run starts
+  onRun?: (command: string[]) => void;
+  // Called when a run finishes without being killed, or with the error
+  // if it couldn't be started
+  onExit?: (status: Deno.CommandStatus | Error) => void;
+};
+
+function patternExpression(patterns: string[]): Expression | undefined {
+  if (!patterns.length) {
+    return;
+  }
+  return expr.anyof(
+    ...patterns.map((pattern) => expr.match(pattern, "wholename")),
+  );
+}
+
+/**
+ * Subscribe to the changes matching the patterns under each path,
+ * passing the changed files to onFiles relative to the current directory.
+ * Returns a function that unsubscribes from them all.
+ */
+async function subscribeAll(
+  watchman: Watchman,
+  options: PathOptions & { settle?: number },
+  onFiles: (files: string[]) => void,
+) {
+  const { paths = ["."], patterns = [], settle } = options;
+  const expression = patternExpression(patterns);
+  await watchman.check(...(expression ? [expression] : []));
+
+  const unsubscribes: (() => Promise<unknown>)[] = [];
+  const unsubscribeAll = async () => {
+    for (const unsubscribe of unsubscribes.splice(0)) {
+      await unsubscribe();
+    }
+  };
+  try {
+    for (const path of paths) {
+      const project = await watchman.watchProject(resolve(path));
+      unsubscribes.push(
+        await watchman.subscribe(
+          { expression, fields: ["name"], relative_root: project.relativePath },
+          ({ files }) => onFiles(files.map((name) => join(path, name))),
+          { settle },
+        ),
+      );
+    }
+  } catch (e) {
+    await unsubscribeAll();
+    throw e;
+  }
+  return unsubscribeAll;
+}
+
+// Settles with an error when the connection to the server is lost
+function connectionLost(watchman: Watchman) {
+  let stop = () => {};
+  const lost = new Promise<never>((_, reject) => {
+    const onEnd = () => reject(new Error("The watchman connection was closed"));
+    watchman.client.once("end", onEnd);
+    stop = () => watchman.client.off("end", onEnd);
+  });
+  // Whoever races against it handles the error
+  lost.catch(() => {});
+  return { lost, stop };
+}
+
+/**
+ * Wait for files matching the patterns to change, like watchman-wait.
+ */
+export async function wait(
+  watchman: Watchman,
+  options: WaitOptions = {},
+): Promise<WaitResult> {
+  const { timeout, maxEvents = 1, onChange } = options;
+  const files: string[] = [];
+  let done: (timedOut: boolean) => void;
+  const finished = new Promise<boolean>((resolve) => done = resolve);
+  const timer = timeout !== undefined
+    ? setTimeout(() => done(true), timeout)
+    : undefined;
+  const { lost, stop } = connectionLost(watchman);
+
+  let unsubscribe = () => Promise.resolve();
+  try {
+    unsubscribe = await subscribeAll(watchman, options, (changed) => {
+      for (const file of changed) {
+        if (maxEvents && files.length >= maxEvents) {
+          return;
+        }
+        files.push(file);
+        onChange?.(file);
+        if (files.length == maxEvents) {
+          done(false);
+        }
+      }
+    });
+    const timedOut = await Promise.race([finished, lost]);
+    return { files, timedOut };
+  } finally {
+    clearTimeout(timer);
+    stop();
+    await unsubscribe();
+  }
+}
+
+// Runs the command, killing the previous run if it's still going
+class Runner {
+  #command: string[];
+  #debounce: number;
+  #onRun?: MakeOptions["onRun"];
+  #onExit?: MakeOptions["onExit"];
+  #child?: Deno.ChildProcess;
+  #lastStart = -Infinity;
+  #timer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    command: string[],
+    debounce: number,
+    { onRun, onExit }: Pick<MakeOptions, "onRun" | "onExit"> = {},
+  ) {
+    this.#command = command;
+    this.#debounce = debounce;
+    this.#onRun = onRun;
+    this.#onExit = onExit;
+  }
+
+  // Run as soon as the debounce period allows
+  schedule() {
+    clearTimeout(this.#timer);
+    const delay = this.#lastStart + this.#debounce - Date.now();
+    this.#timer = setTimeout(() => this.#run(), Math.max(delay, 0));
+  }
+
+  #run() {
+    this.stop();
+    this.#lastStart = Date.now();
+    this.#onRun?.(this.#command);
+    const [cmd, ...args] = this.#command;
+    let child: Deno.ChildProcess;
+    try {
+      child = new Deno.Command(cmd, { args }).spawn();
+    } catch (e) {
+      this.#onExit?.(e as Error);
+      return;
+    }
+    this.#child = child;
+    child.status.then((status) => {
+      if (this.#child === child) {
+        this.#child = undefined;
+        this.#onExit?.(status);
+      }
+    });
+  }
+
+  stop() {
+    clearTimeout(this.#timer);
+    const child = this.#child;
+    this.#child = undefined;
+    if (child) {
+      try {
+        child.kill("SIGTERM");
+      } catch (_) {
+        // It has already exited
+      }
+    }
+  }
+}
+
+/**
+ * Run the command whenever files matching the patterns change, like
+ * watchman-make.  Resolves once the signal is aborted.
+ */
+export async function make(
+  watchman: Watchman,
+  options: MakeOptions,
+): Promise<void> {
+  const { command, settle = 200, debounce = 0, signal } = options;
+  if (!command.length) {
+    throw new Error("make needs a command to run");
+  }
+  if (signal && signal.aborted) {
+    return;
+  }
+  const runner = new Runner(command, debounce, options);
+  const { lost, stop } = connectionLost(watchman);
+  const aborted = new Promise<void>((resolve) =>
+    signal?.addEventListener("abort", () => resolve(), { once: true })
+  );
+
+  let unsubscribe = () => Promise.resolve();
+  try {
+    unsubscribe = await subscribeAll(
+      watchman,
+      { ...options, settle },
+      () => runner.schedule(),
+    );
+    await Promise.race([aborted, lost]);
+  } finally {
+    runner.stop();
+    stop();
+    await unsubscribe();
+  }
+}
+
+// A flag that may have been given several times
+function list(value: unknown): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  return (Array.isArray(value) ? value : [value]).map(String);
+}
+
+// A number of seconds, in milliseconds
+function seconds(value: unknown, flag: string): number | undefined {
+  if (value === undefined) {
+    return;
+  }
+  const number = Number(value);
+  if (isNaN(number) || number < 0) {
+    throw new Error(`--${flag} must be a number of seconds`);
+  }
+  return number * 1000;
+}
+
+/**
+ * Run the command line tool with the given arguments.
+ * Resolves to the exit status.
+ */
+export async function main(args: string[]): Promise<number> {
+  const [subcommand, ...rest] = args;
+  const flags = parse(rest, {
+    string: ["pattern", "timeout", "max-events", "settle", "debounce"],
+    boolean: ["help"],
+    alias: { p: "pattern", t: "timeout", m: "max-events", h: "help" },
+    "--": true,
+  });
+  if (flags.help || !["wait", "make", "run"].includes(subcommand)) {
+    console.error(usage);
+    return flags.help ? 0 : 1;
+  }
+
+  const paths = flags._.length ? flags._.map(String) : undefined;
+  const patterns = list(flags.pattern);
+  const watchman = new Watchman();
+  try {
+    if (subcommand == "wait") {
+      const maxEvents = flags["max-events"] === undefined
+        ? undefined
+        : Number(flags["max-events"]);
+      if (maxEvents !== undefined && !Number.isInteger(maxEvents)) {
+        throw new Error("--max-events must be a whole number");
+      }
+      const { timedOut } = await wait(watchman, {
+        paths,
+        patterns,
+        timeout: seconds(flags.timeout, "timeout"),
+        maxEvents,
+        onChange: (file) => console.log(file),
+      });
+      return timedOut ? 2 : 0;
+    }
+
+    const command = list(flags["--"]);
+    if (!command.length) {
+      console.error(usage);
+      return 1;
+    }
+    await make(watchman, {
+      paths,
+      patterns,
+      command,
+      settle: seconds(flags.settle, "settle"),
+      debounce: seconds(flags.debounce, "debounce"),
+      onRun: (command) => console.error(`# Running ${command.join(" ")}`),
+      onExit: (status) => {
+        if (status instanceof Error) {
+          console.error(`# Failed to run ${command[0]}: ${status.message}`);
+        } else if (!status.success) {
+          console.error(`# Exited with status ${status.code}`);
+        }
+      },
+    });
+    return 0;
+  } catch (e) {
+    console.error((e as Error).message);
+    return 1;
+  } finally {
+    watchman.end();
+  }
+}
+
+if (import.meta.main) {
+  Deno.exit(await main(Deno.args));
+}
@@ -1,23 +1,15 @@
 /* Copyright 2014-present Facebook, Inc.
  * Licensed under the Apache License, Version 2.0 */
 // deno-lint-ignore-file no-explicit-any,camelcase
-import { Buffer } from "https://deno.land/std@0.108.0/node/buffer.ts";
 import { EventEmitter } from "https://deno.land/std@0.108.0/node/events.ts";
 import { iter } from "https://deno.land/std@0.108.0/io/util.ts";
-import * as bser from "./bser/mod.ts";
+import { capabilityVersions } from "./capabilities.ts";
+import { BserCodec, Codec, createCodec, Decoder, Protocol } from "./codec.ts";
+import type { CommandName, CommandResponse, CommandTuple } from "./commands.ts";
 
 // We'll emit the responses to these when they get sent down to us
 const unilateralTags = ["subscription", "log"] as const;
 
-const cap_versions = {
-  "cmd-watch-del-all": "3.1.1",
-  "cmd-watch-project": "3.1",
-  relative_root: "3.3",
-  "term-dirname": "3.1",
-  "term-idirname": "3.1",
-  wildmatch: "3.7",
-} as const;
-
 // Compares a vs b, returns < 0 if a < b, > 0 if b > b, 0 if a == b
 function vers_compare(a: string, b: string) {
   const s = a.split(".");
@@ -32,34 +24,150 @@ function vers_compare(a: string, b: string) {
 }
 
 function have_cap(vers: any, name: string) {
-  if (name in cap_versions) {
-    return vers_compare(
-      vers,
-      cap_versions[name as keyof typeof cap_versions],
-    ) >= 0;
+  if (name in capabilityVersions) {
+    return vers_compare(vers, capabilityVersions[name]) >= 0;
   }
   return false;
 }
 
 type Command = { cmd: any; cb: (error?: Error | null, resp?: any) => any };
 
+export type CommandOptions = {
+  // Abort the command when this signal fires
+  signal?: AbortSignal;
+  // Abort the command if it hasn't completed within this many
+  // milliseconds, measured from when it was queued
+  timeout?: number;
+};
+
+// The error passed to the callback of a command that was aborted
+// before the server responded
+export class CommandAbortedError extends Error {
+  command: any;
+  reason?: unknown;
+
+  constructor(command: any, reason?: unknown, message?: string) {
+    super(message || `watchman command \`${command[0]}\` was aborted`);
+    this.name = "CommandAbortedError";
+    this.command = command;
+    this.reason = reason;
+  }
+}
+
+// The error passed to the callback of a command that timed out
+export class CommandTimeoutError extends CommandAbortedError {
+  timeout: number;
+
+  constructor(command: any, timeout: number) {
+    super(
+      command,
+      undefined,
+      `watchman command \`${command[0]}\` timed out after ${timeout}ms`,
+    );
+    this.name = "CommandTimeoutError";
+    this.timeout = timeout;
+  }
+}
+
+export type ReconnectOptions = {
+  // Delay before the first reconnection attempt, in milliseconds
+  initialDelay?: number;
+  // Upper bound on the delay between attempts, in milliseconds
+  maxDelay?: number;
+  // How much the delay grows after each failed attempt
+  factor?: number;
+  // Give up and emit `end` after this many consecutive failed attempts
+  maxAttempts?: number;
+};
+
+export type ClientOptions = {
+  watchmanBinaryPath?: string;
+  // Connect to this socket rather than asking the watchman binary where
+  // the server is.  Otherwise WATCHMAN_SOCK is used if it's set.
+  sockname?: string;
+  // Extra arguments and environment for the watchman binary, eg to find
+  // a per-user or per-test server
+  watchmanArgs?: string[];
+  watchmanEnv?: { [name: string]: string };
+  // Give up on the watchman binary if it hasn't told us the socket
+  // within this many milliseconds
+  spawnTimeout?: number;
+  bserVersion?: 1 | 2;
+  // The encoding to speak to the server; defaults to bser
+  protocol?: Protocol;
+  // A custom encoding, used instead of the one named by protocol
+  codec?: Codec;
+  // Reconnect with backoff when the connection is lost, rather than
+  // emitting `end`.  A `disconnect` event is emitted when the connection
+  // drops and a `reconnect` event once it has been re-established.
+  reconnect?: boolean | ReconnectOptions;
+};
+
 export class Client extends EventEmitter {
   watchmanBinaryPath: string;
+  watchmanArgs: string[];
+  watchmanEnv?: { [name: string]: string };
+  spawnTimeout?: number;
+  sockname?: string;
   commands: Command[];
+  reconnectOptions?: ReconnectOptions | null;
+
+  codec: Codec;
+  // The BSER PDU version we'd like to speak
+  preferredBserVersion: 1 | 2;
 
   currentCommand?: Command | null;
-  bunser?: bser.BunserBuf | null;
+  decoder?: Decoder | null;
   socket?: Deno.Conn | null;
   connecting?: boolean;
-
-  constructor(options?: { watchmanBinaryPath?: string }) {
+  // Set by end() so that we don't try to reconnect
+  ended?: boolean;
+  // What the server told us about itself on the current connection,
+  // once we've asked
+  serverVersion?: string | null;
+  capabilities: { [name: string]: boolean };
+  private wakeReconnect?: (() => void) | null;
+  // The socket that the watchman binary told us about, which we keep
+  // using until we fail to connect to it
+  private discoveredSockname?: string | null;
+
+  constructor(options?: ClientOptions) {
     super();
 
     this.watchmanBinaryPath = "watchman";
     if (options && options.watchmanBinaryPath) {
       this.watchmanBinaryPath = options.watchmanBinaryPath.trim();
     }
+    this.watchmanArgs = (options && options.watchmanArgs) || [];
+    this.watchmanEnv = options && options.watchmanEnv;
+    this.spawnTimeout = options && options.spawnTimeout;
+    this.sockname = options && options.sockname;
+    this.codec = (options && options.codec) ||
+      createCodec((options && options.protocol) || "bser");
+    this.preferredBserVersion = (options && options.bserVersion) || 2;
     this.commands = [];
+    this.capabilities = {};
+    if (options && options.reconnect) {
+      this.reconnectOptions = options.reconnect === true
+        ? {}
+        : options.reconnect;
+    }
+  }
+
+  // The BSER PDU version that the server has agreed to for the current
+  // connection, when speaking BSER
+  get bserVersion() {
+    return this.codec instanceof BserCodec ? this.codec.version : undefined;
+  }
+
+  // Whether there's a connection to the server right now
+  get connected() {
+    return !!this.socket;
+  }
+
+  // Whether a lost connection will be re-established
+  get willReconnect() {
+    return !!this.reconnectOptions && !this.ended;
   }
 
   // Try to send the next queued command, if any
@@ -75,7 +183,57 @@ export class Client extends EventEmitter {
       return;
     }
 
-    this.socket!.write(bser.dumpToBuffer(this.currentCommand.cmd));
+    this.socket!.write(this.codec.encode(this.currentCommand.cmd));
+  }
+
+  // Ask the server whether it understands BSER v2 before anything else
+  // is sent on a fresh connection.  Servers that predate v2 (or don't
+  // report capabilities at all) leave us speaking v1.  We ask about
+  // everything else while we're at it, so that capability checks on
+  // this connection don't need to.
+  private negotiateBserVersion() {
+    const codec = this.codec;
+    if (!(codec instanceof BserCodec)) {
+      return;
+    }
+    codec.version = 1;
+    if (this.preferredBserVersion != 2) {
+      return;
+    }
+    this.commands.unshift({
+      cmd: [
+        "version",
+        { optional: ["bser-v2", ...Object.keys(capabilityVersions)] },
+      ],
+      cb: (error, resp) => {
+        if (error || !resp) {
+          return;
+        }
+        this.recordVersion(resp);
+        if (resp.capabilities && resp.capabilities["bser-v2"]) {
+          codec.version = 2;
+        }
+      },
+    });
+  }
+
+  // Remember the version and capabilities from a response to `version`
+  private recordVersion(resp: any) {
+    this.serverVersion = resp.version;
+    if (resp.capabilities) {
+      Object.assign(this.capabilities, resp.capabilities);
+      return;
+    }
+    for (const name of Object.keys(capabilityVersions)) {
+      this.capabilities[name] = have_cap(resp.version, name);
+    }
+  }
+
+  // Forget what we learned about the server, which may not be the same
+  // one when we reconnect
+  private forgetVersion() {
+    this.serverVersion = null;
+    this.capabilities = {};
   }
 
   cancelCommands(why: string) {
@@ -97,12 +255,38 @@ export class Client extends EventEmitter {
     });
   }
 
+  private failCurrentCommand(why: string) {
+    const cmd = this.currentCommand;
+    this.currentCommand = null;
+    if (cmd) {
+      cmd.cb(new Error(why));
+    }
+  }
+
+  // Drop the connection after a command that was sent is aborted, so
+  // that the commands behind it don't wait on its response.
+  // maintainConnection reconnects once the old connection has wound
+  // down, sending the queued commands and restoring what was lost.
+  private resetConnection() {
+    const socket = this.socket;
+    if (!socket) {
+      return;
+    }
+    this.socket = null;
+    this.decoder = null;
+    this.forgetVersion();
+    this.currentCommand = null;
+    this.connecting = true;
+    socket.close();
+  }
+
   async connect() {
     const makeSock = async (sockname: string) => {
-      // bunser will decode the watchman BSER protocol for us
-      this.bunser = new bser.BunserBuf();
+      // The decoder turns the watchman protocol back into values for us
+      const decoder = this.codec.decoder();
+      this.decoder = decoder;
       // For each decoded line:
-      this.bunser.on("value", (obj) => {
+      decoder.on("value", (obj) => {
         // Figure out if this is a unliteral response or if it is the
         // response portion of a request-response sequence.  At the time
         // of writing, there are only two possible unilateral responses.
@@ -132,34 +316,68 @@ export class Client extends EventEmitter {
         // See if we can dispatch the next queued command, if any
         this.sendNextCommand();
       });
-      this.bunser.on("error", (err) => {
+      decoder.on("error", (err) => {
         this.emit("error", err);
       });
 
+      let socket: Deno.Conn | undefined;
+      // Whether this is still the client's connection, rather than one
+      // that end() or resetConnection() has already cleaned up after
+      const current = () => !socket || this.socket === socket;
       try {
-        this.socket = await Deno.connect({ path: sockname, transport: "unix" });
+        socket = await Deno.connect({ path: sockname, transport: "unix" });
+        this.socket = socket;
         this.connecting = false;
+        this.negotiateBserVersion();
         this.emit("connect");
         this.sendNextCommand();
 
-        for await (const buf of iter(this.socket, { bufSize: 1024 })) {
-          if (this.bunser) {
-            this.bunser.append(Buffer.from(buf));
+        for await (const buf of iter(socket, { bufSize: 1024 })) {
+          if (this.decoder === decoder) {
+            decoder.append(buf);
           }
         }
       } catch (err) {
-        this.connecting = false;
-        if (err.message !== "operation canceled") {
-          this.emit("error", err);
+        if (!socket && sockname == this.discoveredSockname) {
+          // The server may have moved, so ask again next time
+          this.discoveredSockname = null;
+        }
+        if (current()) {
+          this.connecting = false;
+          if (err.message !== "operation canceled") {
+            this.emit("error", err);
+          }
         }
       } finally {
-        this.socket = null;
-        this.bunser = null;
-        this.cancelCommands("The watchman connection was closed");
-        this.emit("end");
+        if (current()) {
+          if (socket) {
+            // The server hung up or the read failed; our end is still open
+            try {
+              socket.close();
+            } catch (_) {
+              // It was already closed
+            }
+          }
+          this.socket = null;
+          this.decoder = null;
+          this.forgetVersion();
+          if (this.willReconnect) {
+            // The queued commands are sent once we reconnect, but there's
+            // no knowing whether the server acted on the one in flight
+            this.failCurrentCommand("The watchman connection was closed");
+          } else {
+            this.cancelCommands("The watchman connection was closed");
+          }
+        }
+        this.emit(this.willReconnect ? "disconnect" : "end");
       }
     };
 
+    if (this.sockname) {
+      await makeSock(this.sockname);
+      return;
+    }
+
     // triggers will export the sock path to the environment.
     // If we're invoked in such a way, we can simply pick up the
     // definition from the environment and avoid having to fork off
@@ -169,91 +387,143 @@ export class Client extends EventEmitter {
       return;
     }
 
+    // There's no need to ask again each time that we reconnect
+    if (this.discoveredSockname) {
+      await makeSock(this.discoveredSockname);
+      return;
+    }
+
+    // Without a socket, the queued commands can't be sent unless we're
+    // going to try again
+    const failed = (error: Error) => {
+      this.connecting = false;
+      if (!this.willReconnect) {
+        this.cancelCommands(error.message);
+      }
+      this.emit("error", error);
+    };
+
     // We need to ask the client binary where to find it.
     // This will cause the service to start for us if it isn't
     // already running.
-    const args = ["--no-pretty", "get-sockname"];
-
-    // We use the more elaborate spawn rather than exec because there
-    // are some error cases on Windows where process spawning can hang.
-    // It is desirable to pipe stderr directly to stderr live so that
-    // we can discover the problem.
-    // const proc = null;
-    let spawnFailed = false;
+    const args = [...this.watchmanArgs, "--no-pretty", "get-sockname"];
 
     const spawnError = (error: any) => {
-      if (spawnFailed) {
-        // For ENOENT, proc 'close' will also trigger with a negative code,
-        // let's suppress that second error.
-        return;
-      }
-      spawnFailed = true;
-      if (error.code === "EACCES" || error.errno === "EACCES") {
+      if (
+        error instanceof Deno.errors.PermissionDenied ||
+        error.code === "EACCES"
+      ) {
         error.message = "The Watchman CLI is installed but cannot " +
           "be spawned because of a permission problem";
-      } else if (error.code === "ENOENT" || error.errno === "ENOENT") {
+      } else if (
+        error instanceof Deno.errors.NotFound || error.code === "ENOENT"
+      ) {
         error.message = "Watchman was not found in PATH.  See " +
           "https://facebook.github.io/watchman/docs/install.html " +
           "for installation instructions";
       }
       console.error("Watchman: ", error.message);
-      this.emit("error", error);
+      failed(error);
     };
 
-    const proc = Deno.run({
-      cmd: [this.watchmanBinaryPath, ...args],
-      stdin: "null",
-      stdout: "piped",
-      stderr: "piped",
-    });
-    const s = await proc.status();
-    if (!s.success) {
-      const stderrBytes = await proc.stderrOutput();
+    const controller = new AbortController();
+    const timer = this.spawnTimeout === undefined
+      ? undefined
+      : setTimeout(() => controller.abort(), this.spawnTimeout);
+    const timedOut = () =>
+      new Error(
+        this.watchmanBinaryPath + " " + args.join(" ") +
+          " timed out after " + this.spawnTimeout + "ms",
+      );
+    let output;
+    try {
+      output = await new Deno.Command(this.watchmanBinaryPath, {
+        args,
+        env: this.watchmanEnv,
+        stdin: "null",
+        stdout: "piped",
+        stderr: "piped",
+        signal: controller.signal,
+      }).output();
+    } catch (e) {
+      spawnError(controller.signal.aborted ? timedOut() : e);
+      return;
+    } finally {
+      clearTimeout(timer);
+    }
+    if (controller.signal.aborted) {
+      spawnError(timedOut());
+      return;
+    }
+    if (!output.success) {
       spawnError(
         new Error(
           this.watchmanBinaryPath +
             " " +
             args.join(" ") +
             " returned with exit code=" +
-            s.code +
+            output.code +
             ", signal=" +
-            s.signal +
+            output.signal +
             ", stderr= " +
-            new TextDecoder().decode(stderrBytes),
+            new TextDecoder().decode(output.stderr),
         ),
       );
       return;
     }
 
+    let obj;
     try {
-      const stdoutBytes = await proc.output();
-      const obj = JSON.parse(new TextDecoder().decode(stdoutBytes));
-      if ("error" in obj) {
-        const error = new Error(obj.error);
-        // @ts-expect-error dynamic prop
-        error.watchmanResponse = obj;
-        this.emit("error", error);
-        return;
-      }
-      await makeSock(obj.sockname);
+      obj = JSON.parse(new TextDecoder().decode(output.stdout));
     } catch (e) {
-      this.emit("error", e);
+      failed(e as Error);
+      return;
     }
-
-    proc.close();
+    if ("error" in obj) {
+      const error = new Error(obj.error);
+      // @ts-expect-error dynamic prop
+      error.watchmanResponse = obj;
+      failed(error);
+      return;
+    }
+    this.discoveredSockname = obj.sockname;
+    await makeSock(obj.sockname);
   }
 
-  command(args: Command["cmd"], done: Command["cb"]) {
+  command<C extends CommandName>(
+    args: CommandTuple<C>,
+    done?: (error?: Error | null, resp?: CommandResponse<C>) => any,
+    options?: CommandOptions,
+  ): void;
+  command(
+    args: Command["cmd"],
+    done?: Command["cb"],
+    options: CommandOptions = {},
+  ) {
     done = done || function () {};
 
+    if (options.signal && options.signal.aborted) {
+      done(new CommandAbortedError(args, options.signal.reason));
+      return;
+    }
+
     // Queue up the command
-    this.commands.push({ cmd: args, cb: done });
+    const cmd = { cmd: args, cb: done };
+    if (options.signal || options.timeout !== undefined) {
+      this.cancellable(cmd, options);
+    }
+    this.commands.push(cmd);
 
     // Establish a connection if we don't already have one
     if (!this.socket) {
       if (!this.connecting) {
         this.connecting = true;
-        this.connect();
+        this.ended = false;
+        if (this.reconnectOptions) {
+          this.maintainConnection();
+        } else {
+          this.connect();
+        }
         return;
       }
       return;
@@ -263,6 +533,117 @@ export class Client extends EventEmitter {
     this.sendNextCommand();
   }
 
+  // Keep connecting, backing off between failed attempts, until the
+  // client is ended or we run out of attempts
+  private async maintainConnection() {
+    const {
+      initialDelay = 100,
+      maxDelay = 30000,
+      factor = 2,
+      maxAttempts = Infinity,
+    } = this.reconnectOptions!;
+    let attempt = 0;
+    let everConnected = false;
+
+    while (!this.ended) {
+      let connected = false;
+      const onConnect = () => {
+        connected = true;
+        if (everConnected) {
+          this.emit("reconnect", { attempt });
+        }
+        everConnected = true;
+      };
+      this.once("connect", onConnect);
+      try {
+        await this.connect();
+      } catch (_) {
+        // Emitting an error that nobody is listening for throws; the
+        // failure has been reported as best we can, so keep trying
+      }
+      this.off("connect", onConnect);
+
+      attempt = connected ? 1 : attempt + 1;
+      if (this.ended) {
+        return;
+      }
+      if (attempt > maxAttempts) {
+        this.connecting = false;
+        this.emit("end");
+        return;
+      }
+
+      // Queue up commands rather than starting another connection
+      // while we wait
+      this.connecting = true;
+      const delay = Math.min(maxDelay, initialDelay * factor ** (attempt - 1));
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, delay);
+        this.wakeReconnect = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      this.wakeReconnect = null;
+    }
+  }
+
+  // Arrange for the command to be aborted by a signal or timeout.
+  // A command that is still queued is simply removed from the queue.
+  // Once a command has been sent there's no taking it back.  When we'll
+  // reconnect, the connection is reset rather than leaving the commands
+  // behind it to wait on a response that may never come.  Otherwise the
+  // command stays current so that its response is consumed and
+  // discarded when it arrives, rather than being matched up with the
+  // command that follows it.
+  private cancellable(cmd: Command, options: CommandOptions) {
+    const { signal, timeout } = options;
+    const done = cmd.cb;
+    let settled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const onAbort = () =>
+      abort(new CommandAbortedError(cmd.cmd, signal && signal.reason));
+    const cleanup = () => {
+      settled = true;
+      clearTimeout(timer);
+      if (signal) {
+        signal.removeEventListener("abort", onAbort);
+      }
+    };
+    const abort = (error: Error) => {
+      if (settled) {
+        return;
+      }
+      const idx = this.commands.indexOf(cmd);
+      if (idx >= 0) {
+        this.commands.splice(idx, 1);
+      }
+      cleanup();
+      if (this.currentCommand === cmd && this.willReconnect) {
+        this.resetConnection();
+      }
+      done(error);
+    };
+
+    cmd.cb = (error, resp) => {
+      if (settled) {
+        return;
+      }
+      cleanup();
+      return done(error, resp);
+    };
+    if (signal) {
+      signal.addEventListener("abort", onAbort);
+    }
+    if (timeout !== undefined) {
+      timer = setTimeout(
+        () => abort(new CommandTimeoutError(cmd.cmd, timeout)),
+        timeout,
+      );
+    }
+  }
+
   private _synthesizeCapabilityCheck(
     resp: any,
     optional: string[],
@@ -284,19 +665,61 @@ export class Client extends EventEmitter {
     return resp;
   }
 
-  capabilityCheck(caps: { optional?: string[]; required?: string[] }) {
+  // Answer a capability check from what the server already told us on
+  // this connection, if it told us about all of the capabilities
+  private cachedCapabilityCheck(optional: string[], required: string[]) {
+    if (!this.serverVersion) {
+      return;
+    }
+    const resp: any = { version: this.serverVersion, capabilities: {} };
+    for (const name of [...optional, ...required]) {
+      if (!(name in this.capabilities)) {
+        return;
+      }
+      resp.capabilities[name] = this.capabilities[name];
+    }
+    const missing = required.find((name) => !this.capabilities[name]);
+    if (missing) {
+      resp.error =
+        `client required capability \`${missing}\` is not supported by this server`;
+    }
+    return resp;
+  }
+
+  capabilityCheck(
+    caps: { optional?: string[]; required?: string[] },
+    options?: CommandOptions,
+  ) {
     const optional = caps.optional || [];
     const required = caps.required || [];
     return new Promise<
       { version: string; capabilities: { [key: string]: boolean } }
     >((resolve, reject) => {
+      const cached = this.cachedCapabilityCheck(optional, required);
+      if (cached) {
+        if (cached.error) {
+          const error = new Error(cached.error);
+          // @ts-expect-error dynamic prop
+          error.watchmanResponse = cached;
+          reject(error);
+        } else {
+          resolve(cached);
+        }
+        return;
+      }
       this.command(
         ["version", { optional, required }],
-        (error, resp) => {
+        (error, resp: any) => {
           if (error) {
+            // @ts-expect-error dynamic prop
+            const failed = error.watchmanResponse;
+            if (failed && failed.capabilities) {
+              this.recordVersion(failed);
+            }
             reject(error);
             return;
           }
+          this.recordVersion(resp);
           if (!("capabilities" in resp)) {
             // Server doesn't support capabilities, so we need to
             // synthesize the results based on the version
@@ -311,16 +734,22 @@ export class Client extends EventEmitter {
           }
           resolve(resp);
         },
+        options,
       );
     });
   }
 
   end() {
+    this.ended = true;
+    if (this.wakeReconnect) {
+      this.connecting = false;
+      this.wakeReconnect();
+    }
     this.cancelCommands("The client was ended");
     if (this.socket) {
       this.socket.close();
       this.socket = null;
     }
-    this.bunser = null;
+    this.decoder = null;
   }
 }
@@ -0,0 +1,90 @@
+// deno-lint-ignore-file no-explicit-any
+/**
+ * The encodings that the watchman server accepts on its socket.
+ * The server picks the encoding for each PDU by looking at its first
+ * byte, so either can be used on any connection.
+ */
+import { EventEmitter } from "https://deno.land/std@0.108.0/node/events.ts";
+import * as bser from "./bser/mod.ts";
+
+export type Protocol = "bser" | "json";
+
+// Turns the bytes received on a connection back into values.
+// Each decoded value is emitted as `value`, and malformed input as `error`.
+export interface Decoder {
+  append(buf: Uint8Array): void;
+  on(event: "value", listener: (value: any) => void): this;
+  on(event: "error", listener: (error: Error) => void): this;
+}
+
+export interface Codec {
+  // Protocol for the built-in codecs, or a name for custom ones
+  readonly protocol: string;
+  encode(value: unknown): Uint8Array;
+  // A decoder for the data received on a new connection
+  decoder(): Decoder;
+}
+
+export class BserCodec implements Codec {
+  readonly protocol = "bser";
+  // The PDU version to encode with, once the server has agreed to it
+  version: 1 | 2 = 1;
+
+  encode(value: unknown) {
+    return bser.dumpToBuffer(value, { version: this.version });
+  }
+
+  decoder() {
+    return new bser.BunserBuf();
+  }
+}
+
+// Decodes newline delimited JSON
+export class JsonDecoder extends EventEmitter implements Decoder {
+  #text = "";
+  #utf8 = new TextDecoder();
+
+  append(buf: Uint8Array) {
+    this.#text += this.#utf8.decode(buf, { stream: true });
+    let newline;
+    while ((newline = this.#text.indexOf("\n")) >= 0) {
+      const line = this.#text.slice(0, newline);
+      this.#text = this.#text.slice(newline + 1);
+      if (!line.trim()) {
+        continue;
+      }
+      let value;
+      try {
+        value = JSON.parse(line);
+      } catch (e) {
+        this.emit("error", e);
+        continue;
+      }
+      this.emit("value", value);
+    }
+  }
+}
+
+// Speaks newline delimited JSON, which is easy to read when debugging
+export class JsonCodec implements Codec {
+  readonly protocol = "json";
+  #utf8 = new TextEncoder();
+
+  encode(value: unknown) {
+    return this.#utf8.encode(JSON.stringify(value) + "\n");
+  }
+
+  decoder() {
+    return new JsonDecoder();
+  }
+}
+
+export function createCodec(protocol: Protocol): Codec {
+  switch (protocol) {
+    case "bser":
+      return new BserCodec();
+    case "json":
+      return new JsonCodec();
+  }
+  throw new Error(`unknown protocol ${protocol}`);
+}
@@ -0,0 +1,271 @@
+// deno-lint-ignore-file camelcase
+/**
+ * Argument and response shapes for the watchman commands.
+ * See https://facebook.github.io/watchman/docs/cmd/watch-project.html
+ */
+import type { Expression, FileType } from "./expression.ts";
+
+// The fields that can be requested for each file in a result
+export type FileFields = {
+  name: string;
+  exists: boolean;
+  new: boolean;
+  type: FileType;
+  size: number;
+  mode: number;
+  uid: number;
+  gid: number;
+  ino: number;
+  dev: number;
+  nlink: number;
+  cclock: string;
+  oclock: string;
+  ctime: number;
+  ctime_ms: number;
+  ctime_us: number;
+  ctime_ns: number;
+  ctime_f: number;
+  mtime: number;
+  mtime_ms: number;
+  mtime_us: number;
+  mtime_ns: number;
+  mtime_f: number;
+  symlink_target: string;
+  "content.sha1hex": string | { error: string };
+};
+
+export type FieldName = keyof FileFields;
+
+// When only the name field is requested the server sends bare names
+export type FileResult = string | Partial<FileFields>;
+
+export type Clock = string;
+
+/**
+ * A "fat" clock that asks for changes relative to the merge base of
+ * the working copy with another revision, eg:
+ * `{ scm: { "mergebase-with": "main" } }`.
+ * See https://facebook.github.io/watchman/docs/scm-query.html
+ */
+export type ScmClockSpec = {
+  clock?: Clock;
+  scm: { "mergebase-with": string; mergebase?: string };
+};
+
+// The clock returned for queries that were made with an ScmClockSpec;
+// it can be passed back as `since` to pick up from where it left off
+export type ScmClock = {
+  clock: Clock;
+  scm: { "mergebase-with": string; mergebase: string };
+};
+
+export type Since = Clock | number | ScmClockSpec;
+
+export type PathGenerator = string | { path: string; depth: number };
+
+export type QuerySpec = {
+  expression?: Expression;
+  fields?: FieldName[];
+  since?: Since;
+  suffix?: string | string[];
+  glob?: string[];
+  glob_includedotfiles?: boolean;
+  glob_noescape?: boolean;
+  path?: PathGenerator[];
+  relative_root?: string;
+  dedup_results?: boolean;
+  empty_on_fresh_instance?: boolean;
+  case_sensitive?: boolean;
+  lock_timeout?: number;
+  sync_timeout?: number;
+};
+
+export type SubscribeSpec = QuerySpec & {
+  defer?: string[];
+  drop?: string[];
+  defer_vcs?: boolean;
+};
+
+export type TriggerSpec = {
+  name: string;
+  command: string[];
+  expression?: Expression;
+  relative_root?: string;
+  append_files?: boolean;
+  stdin?: FieldName[] | "/dev/null" | "NAME_PER_LINE";
+  max_files_stdin?: number;
+  stdout?: string;
+  stderr?: string;
+  chdir?: string;
+};
+
+export type CapabilityCheck = { optional?: string[]; required?: string[] };
+
+// Fields that the server may include in any response
+export type BaseResponse = {
+  version: string;
+  warning?: string;
+};
+
+export type QueryResponse = {
+  clock: Clock | ScmClock;
+  is_fresh_instance: boolean;
+  files: FileResult[];
+  debug?: unknown;
+};
+
+// The unilateral PDU that the server sends for each subscription update
+export type SubscriptionResponse = QueryResponse & {
+  subscription: string;
+  root: string;
+  unilateral?: boolean;
+};
+
+// The unilateral PDU sent to subscribers when a state is entered or
+// left on the watched root
+export type StateResponse = {
+  subscription: string;
+  root: string;
+  clock: Clock;
+  unilateral?: boolean;
+  "state-enter"?: string;
+  "state-leave"?: string;
+  metadata?: unknown;
+  // Set when the client that entered the state disconnected without
+  // leaving it
+  abandoned?: boolean;
+};
+
+/**
+ * The registry of commands, mapping each name to the arguments that
+ * follow it and the response that the server sends back.
+ */
+export interface Commands {
+  "version": {
+    args: [] | [CapabilityCheck];
+    response: {
+      capabilities?: { [name: string]: boolean };
+      buildinfo?: string;
+    };
+  };
+  "list-capabilities": {
+    args: [];
+    response: { capabilities: string[] };
+  };
+  "get-sockname": {
+    args: [];
+    response: { sockname: string };
+  };
+  "get-pid": {
+    args: [];
+    response: { pid: number };
+  };
+  "watch": {
+    args: [root: string];
+    response: { watch: string; watcher?: string };
+  };
+  "watch-project": {
+    args: [root: string];
+    response: { watch: string; watcher?: string; relative_path?: string };
+  };
+  "watch-list": {
+    args: [];
+    response: { roots: string[] };
+  };
+  "watch-del": {
+    args: [root: string];
+    response: { "watch-del": boolean; root: string };
+  };
+  "watch-del-all": {
+    args: [];
+    response: { roots: string[] };
+  };
+  "clock": {
+    args: [root: string] | [root: string, options: { sync_timeout?: number }];
+    response: { clock: Clock };
+  };
+  "query": {
+    args: [root: string, query: QuerySpec];
+    response: QueryResponse;
+  };
+  "find": {
+    args: [root: string, ...patterns: string[]];
+    response: { clock: Clock; files: FileResult[] };
+  };
+  "since": {
+    args: [root: string, clock: Since, ...patterns: string[]];
+    response: QueryResponse;
+  };
+  "subscribe": {
+    args: [root: string, name: string, sub: SubscribeSpec];
+    response: { subscribe: string; clock?: Clock };
+  };
+  "unsubscribe": {
+    args: [root: string, name: string];
+    response: { unsubscribe: string; deleted: boolean };
+  };
+  "flush-subscriptions": {
+    args: [
+      root: string,
+      options: { sync_timeout: number; subscriptions?: string[] },
+    ];
+    response: { synced: string[]; no_sync_needed: string[]; dropped: string[] };
+  };
+  "state-enter": {
+    args: [
+      root: string,
+      state: string | {
+        name: string;
+        metadata?: unknown;
+        sync_timeout?: number;
+      },
+    ];
+    response: { root: string; "state-enter": string };
+  };
+  "state-leave": {
+    args: [
+      root: string,
+      state: string | {
+        name: string;
+        metadata?: unknown;
+        sync_timeout?: number;
+      },
+    ];
+    response: { root: string; "state-leave": string };
+  };
+  "log-level": {
+    args: [level: "debug" | "error" | "off"];
+    response: { log_level: string };
+  };
+  "log": {
+    args: [level: "debug" | "error", message: string];
+    response: { logged: boolean };
+  };
+  "trigger": {
+    args: [root: string, trigger: TriggerSpec];
+    response: { triggerid: string; disposition: string };
+  };
+  "trigger-list": {
+    args: [root: string];
+    response: { triggers: TriggerSpec[] };
+  };
+  "trigger-del": {
+    args: [root: string, name: string];
+    response: { deleted: boolean; trigger: string };
+  };
+  "shutdown-server": {
+    args: [];
+    response: { "shutdown-server": boolean };
+  };
+}
+
+export type CommandName = keyof Commands;
+
+export type CommandArgs<C extends CommandName> = Commands[C]["args"];
+
+export type CommandResponse<C extends CommandName> =
+  & BaseResponse
+  & Commands[C]["response"];
+
+// The full command as it is sent over the wire, eg: ["clock", root]
+export type CommandTuple<C extends CommandName> = [C, ...CommandArgs<C>];
@@ -0,0 +1,196 @@
+/**
+ * Evaluates expression terms against file metadata that we have in hand,
+ * for the places where there is no server to do it for us.
+ * Only the terms that can be answered from the fields of LocalFile are
+ * supported; clock based `since` terms and unknown terms are rejected.
+ */
+import type { Expression, FileType, Scope } from "./expression.ts";
+
+// What we need to know about a file to evaluate the supported terms
+export type LocalFile = {
+  // The path relative to the root, using `/` as the separator
+  name: string;
+  exists: boolean;
+  type: FileType;
+  size: number;
+  // Seconds since the epoch
+  mtime: number;
+  ctime: number;
+};
+
+// Raised for terms that can't be evaluated locally
+export class UnsupportedExpressionError extends Error {
+  term: string;
+
+  constructor(term: string, message?: string) {
+    super(message || `unsupported expression term \`${term}\``);
+    this.name = "UnsupportedExpressionError";
+    this.term = term;
+  }
+}
+
+function compare(op: string, a: number, b: number) {
+  switch (op) {
+    case "eq":
+      return a == b;
+    case "ne":
+      return a != b;
+    case "gt":
+      return a > b;
+    case "ge":
+      return a >= b;
+    case "lt":
+      return a < b;
+    case "le":
+      return a <= b;
+  }
+  throw new UnsupportedExpressionError(op, `unknown comparison \`${op}\``);
+}
+
+function basename(name: string) {
+  return name.slice(name.lastIndexOf("/") + 1);
+}
+
+function scoped(name: string, scope?: Scope) {
+  return scope === "wholename" ? name : basename(name);
+}
+
+const escapeRegExp = (s: string) => s.replace(/[\\^$.*+?()[\]{}|/]/g, "\\$&");
+
+/**
+ * Translate a wildmatch pattern into a regular expression.
+ * `**` matches across directories, `*` and `?` stay within one, and
+ * unless includedotfiles is set neither will match a leading `.`.
+ */
+export function wildmatch(
+  pattern: string,
+  options: {
+    includedotfiles?: boolean;
+    noescape?: boolean;
+    caseless?: boolean;
+  } = {},
+) {
+  const noDot = options.includedotfiles ? "" : "(?!\\.)";
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    const segmentStart = i == 0 || pattern[i - 1] == "/";
+    if (c == "*" && pattern[i + 1] == "*") {
+      i++;
+      if (segmentStart && pattern[i + 1] == "/") {
+        i++;
+        source += `(?:${noDot}[^/]*/)*`;
+      } else {
+        source += (segmentStart ? noDot : "") + ".*";
+      }
+    } else if (c == "*") {
+      source += (segmentStart ? noDot : "") + "[^/]*";
+    } else if (c == "?") {
+      source += (segmentStart ? noDot : "") + "[^/]";
+    } else if (c == "[") {
+      const end = pattern.indexOf("]", i + 2);
+      if (end < 0) {
+        source += "\\[";
+        continue;
+      }
+      let set = pattern.slice(i + 1, end);
+      if (set[0] == "!") {
+        set = "^" + set.slice(1);
+      }
+      source += `[${set}]`;
+      i = end;
+    } else if (c == "\\" && !options.noescape && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else {
+      source += escapeRegExp(c);
+    }
+  }
+  return new RegExp(`^${source}$`, options.caseless ? "i" : "");
+}
+
+/**
+ * Returns whether the file matches the expression
+ */
+export function evaluate(expression: Expression, file: LocalFile): boolean {
+  const term = typeof expression === "string" ? [expression] : expression;
+  switch (term[0]) {
+    case "true":
+      return true;
+    case "false":
+      return false;
+    case "allof":
+      return (term.slice(1) as Expression[]).every((e) => evaluate(e, file));
+    case "anyof":
+      return (term.slice(1) as Expression[]).some((e) => evaluate(e, file));
+    case "not":
+      return !evaluate(term[1] as Expression, file);
+    case "exists":
+      return file.exists;
+    case "empty":
+      return file.exists && (file.type == "f" || file.type == "d") &&
+        file.size == 0;
+    case "type":
+      return file.type == term[1];
+    case "size":
+      return file.exists && file.type == "f" &&
+        compare(term[1] as string, file.size, term[2] as number);
+    case "suffix": {
+      const suffixes = ([] as string[]).concat(term[1] as string | string[]);
+      const name = basename(file.name).toLowerCase();
+      return suffixes.some((suffix) =>
+        name.endsWith("." + suffix.toLowerCase())
+      );
+    }
+    case "name":
+    case "iname": {
+      const names = ([] as string[]).concat(term[1] as string | string[]);
+      const name = scoped(file.name, term[2] as Scope);
+      return term[0] == "name"
+        ? names.includes(name)
+        : names.some((n) => n.toLowerCase() == name.toLowerCase());
+    }
+    case "match":
+    case "imatch": {
+      const [, pattern, scope, options] = term as [
+        string,
+        string,
+        Scope?,
+        { includedotfiles?: boolean; noescape?: boolean }?,
+      ];
+      return wildmatch(pattern, { ...options, caseless: term[0] == "imatch" })
+        .test(scoped(file.name, scope));
+    }
+    case "pcre":
+    case "ipcre":
+      return new RegExp(term[1] as string, term[0] == "ipcre" ? "i" : "")
+        .test(scoped(file.name, term[2] as Scope));
+    case "dirname":
+    case "idirname": {
+      const [, dir, depth] = term as [
+        string,
+        string,
+        [string, string, number]?,
+      ];
+      const caseless = term[0] == "idirname";
+      const name = caseless ? file.name.toLowerCase() : file.name;
+      const prefix = caseless ? dir.toLowerCase() : dir;
+      if (prefix && !name.startsWith(prefix + "/")) {
+        return false;
+      }
+      const rest = prefix ? name.slice(prefix.length + 1) : name;
+      const [, op, value] = depth || ["depth", "ge", 0];
+      return compare(op, rest.split("/").length - 1, value);
+    }
+    case "since": {
+      const [, value, field = "mtime"] = term as [string, unknown, string?];
+      if (typeof value != "number" || (field != "mtime" && field != "ctime")) {
+        throw new UnsupportedExpressionError(
+          "since",
+          "only timestamps can be compared locally by the `since` term",
+        );
+      }
+      return file[field] > value;
+    }
+  }
+  throw new UnsupportedExpressionError(String(term[0]));
+}
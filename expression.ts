@@ -0,0 +1,189 @@
+/**
+ * Builders for the watchman expression term language.
+ *
+ * Every builder returns the plain JSON term that the server accepts, so
+ * the results can be freely mixed with hand-written terms.
+ * See https://facebook.github.io/watchman/docs/expr/allof.html
+ */
+
+export type Scope = "basename" | "wholename";
+
+export type FileType = "b" | "c" | "d" | "f" | "p" | "l" | "s" | "D";
+
+export type Comparison = "eq" | "ne" | "gt" | "ge" | "lt" | "le";
+
+export type SinceField = "mtime" | "ctime" | "oclock" | "cclock";
+
+export type MatchOptions = {
+  includedotfiles?: boolean;
+  noescape?: boolean;
+};
+
+export type Expression =
+  | "true"
+  | "false"
+  | "empty"
+  | "exists"
+  | ["true"]
+  | ["false"]
+  | ["allof", ...Expression[]]
+  | ["anyof", ...Expression[]]
+  | ["not", Expression]
+  | [
+    "match" | "imatch",
+    string,
+    Scope?,
+    MatchOptions?,
+  ]
+  | ["suffix", string | string[]]
+  | ["type", FileType]
+  | ["name" | "iname", string | string[], Scope?]
+  | ["dirname" | "idirname", string, ["depth", Comparison, number]?]
+  | ["since", string | number, SinceField?]
+  | ["size", Comparison, number]
+  | ["empty"]
+  | ["exists"]
+  | ["pcre" | "ipcre", string, Scope?];
+
+// Drop trailing arguments that weren't given so that we produce the
+// same terms that someone would write by hand
+function term<T extends Expression>(...args: unknown[]): T {
+  while (args.length > 1 && typeof args[args.length - 1] === "undefined") {
+    args.pop();
+  }
+  return args as T;
+}
+
+export function allof(...expressions: Expression[]): Expression {
+  return ["allof", ...expressions];
+}
+
+export function anyof(...expressions: Expression[]): Expression {
+  return ["anyof", ...expressions];
+}
+
+export function not(expression: Expression): Expression {
+  return ["not", expression];
+}
+
+export function match(
+  pattern: string,
+  scope?: Scope,
+  options?: MatchOptions,
+): Expression {
+  return term(
+    "match",
+    pattern,
+    options && !scope ? "basename" : scope,
+    options,
+  );
+}
+
+export function imatch(
+  pattern: string,
+  scope?: Scope,
+  options?: MatchOptions,
+): Expression {
+  return term(
+    "imatch",
+    pattern,
+    options && !scope ? "basename" : scope,
+    options,
+  );
+}
+
+export function suffix(suffixes: string | string[]): Expression {
+  return ["suffix", suffixes];
+}
+
+export function type(fileType: FileType): Expression {
+  return ["type", fileType];
+}
+
+export function name(names: string | string[], scope?: Scope): Expression {
+  return term("name", names, scope);
+}
+
+export function iname(names: string | string[], scope?: Scope): Expression {
+  return term("iname", names, scope);
+}
+
+export function dirname(
+  path: string,
+  depth?: [Comparison, number],
+): Expression {
+  return term("dirname", path, depth && ["depth", ...depth]);
+}
+
+export function idirname(
+  path: string,
+  depth?: [Comparison, number],
+): Expression {
+  return term("idirname", path, depth && ["depth", ...depth]);
+}
+
+export function since(value: string | number, field?: SinceField): Expression {
+  return term("since", value, field);
+}
+
+export function size(op: Comparison, value: number): Expression {
+  return ["size", op, value];
+}
+
+export function empty(): Expression {
+  return ["empty"];
+}
+
+export function exists(): Expression {
+  return ["exists"];
+}
+
+export function pcre(pattern: string, scope?: Scope): Expression {
+  return term("pcre", pattern, scope);
+}
+
+export function ipcre(pattern: string, scope?: Scope): Expression {
+  return term("ipcre", pattern, scope);
+}
+
+// The capabilities that the server must have to evaluate each term,
+// beyond the basic term language
+function termCapabilities(expression: Expression): string[] {
+  if (typeof expression === "string") {
+    return [];
+  }
+  switch (expression[0]) {
+    case "allof":
+    case "anyof":
+    case "not":
+      return (expression.slice(1) as Expression[]).flatMap(termCapabilities);
+    case "dirname":
+      return ["term-dirname"];
+    case "idirname":
+      return ["term-idirname"];
+    // Servers can be built without PCRE
+    case "pcre":
+      return ["term-pcre"];
+    case "ipcre":
+      return ["term-ipcre"];
+    case "match":
+    case "imatch":
+      // Options and recursive globs are only understood by wildmatch
+      if (expression[3] || expression[1].includes("**")) {
+        return ["wildmatch"];
+      }
+      return [];
+    case "suffix":
+      return Array.isArray(expression[1]) ? ["suffix-set"] : [];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Returns the capabilities required to evaluate the given expressions,
+ * suitable for passing as `required` to `Client.capabilityCheck`.
+ */
+export function requiredCapabilities(...expressions: Expression[]): string[] {
+  return [...new Set(expressions.flatMap(termCapabilities))].sort();
+}
@@ -1,2 +1,58 @@
-export { Client } from "./client.ts";
+export { Client, CommandAbortedError, CommandTimeoutError } from "./client.ts";
+export type {
+  ClientOptions,
+  CommandOptions,
+  ReconnectOptions,
+} from "./client.ts";
+export { BserCodec, JsonCodec, JsonDecoder } from "./codec.ts";
+export type { Codec, Decoder, Protocol } from "./codec.ts";
 export { Watchman as default } from "./watchman.ts";
+export type {
+  Backend,
+  LogLevel,
+  LogRecord,
+  WatchmanOptions,
+  WatchOptions,
+} from "./watchman.ts";
+export { WatchFsClient } from "./watchfs.ts";
+export { isScmClock, Project } from "./project.ts";
+export type {
+  FileRecord,
+  QueryOptions,
+  QueryResult,
+  StateEvent,
+  SubscribeOptions,
+} from "./project.ts";
+export {
+  defineTrigger,
+  readTriggerFiles,
+  TriggerBuilder,
+  triggerEnvironment,
+} from "./trigger.ts";
+export type { TriggerEnvironment } from "./trigger.ts";
+export type { SettleOptions } from "./settle.ts";
+export { changeFields, classifyChange } from "./changes.ts";
+export type { ChangeEvent, ChangeType, FileChange } from "./changes.ts";
+export { BufferOverflowError } from "./channel.ts";
+export type { BufferOptions, OverflowPolicy } from "./channel.ts";
+export * as expr from "./expression.ts";
+export type { Expression } from "./expression.ts";
+export type {
+  Clock,
+  CommandArgs,
+  CommandName,
+  CommandResponse,
+  Commands,
+  FieldName,
+  FileFields,
+  FileResult,
+  QueryResponse,
+  QuerySpec,
+  ScmClock,
+  ScmClockSpec,
+  Since,
+  StateResponse,
+  SubscribeSpec,
+  SubscriptionResponse,
+  TriggerSpec,
+} from "./commands.ts";
@@ -0,0 +1,509 @@
+// deno-lint-ignore-file camelcase
+import {
+  join,
+  relative,
+  resolve,
+} from "https://deno.land/std@0.108.0/path/mod.ts";
+import { EventEmitter } from "https://deno.land/std@0.108.0/node/events.ts";
+import { v4 } from "https://deno.land/std@0.108.0/uuid/mod.ts";
+import {
+  ChangeEvent,
+  changeFields,
+  classifyChange,
+  FileChange,
+} from "./changes.ts";
+import { Client, CommandOptions } from "./client.ts";
+import type {
+  Clock,
+  CommandName,
+  CommandResponse,
+  CommandTuple,
+  FieldName,
+  FileFields,
+  FileResult,
+  QuerySpec,
+  ScmClock,
+  Since,
+  StateResponse,
+  SubscribeSpec,
+  SubscriptionResponse,
+  TriggerSpec,
+} from "./commands.ts";
+import { requiredCapabilities } from "./expression.ts";
+import { SettleOptions, Settler } from "./settle.ts";
+import { TriggerBuilder } from "./trigger.ts";
+
+export type QueryOptions<F extends FieldName> =
+  & Omit<QuerySpec, "fields">
+  & CommandOptions
+  & {
+    // The fields to return for each file; `name` is always included
+    fields?: F[];
+  };
+
+// A file from a query result, with its paths already resolved
+export type FileRecord<F extends FieldName> = Pick<FileFields, F | "name"> & {
+  // The absolute path to the file
+  path: string;
+  // The path relative to the directory passed to watchProject
+  relativePath: string;
+};
+
+export type QueryResult<F extends FieldName> = {
+  // An ScmClock when the query was made relative to a merge base
+  clock: Clock | ScmClock;
+  is_fresh_instance: boolean;
+  files: FileRecord<F>[];
+};
+
+// A state transition reported to a subscriber
+export type StateEvent = {
+  type: "state-enter" | "state-leave";
+  // The name of the state
+  state: string;
+  root: string;
+  clock: Clock;
+  subscription: string;
+  metadata?: unknown;
+  abandoned?: boolean;
+};
+
+export type SubscribeOptions = SettleOptions & {
+  // Called for the state-enter and state-leave notifications that the
+  // server sends along with the subscription
+  onState?: (event: StateEvent) => void;
+};
+
+// What we need to re-create a subscription after reconnecting
+type ActiveSubscription = {
+  sub: SubscribeSpec;
+  // The clock from the most recent update
+  clock?: Since;
+  // Set until the first update after re-creating the subscription
+  restoring?: boolean;
+  // Stop listening for updates
+  detach: () => void;
+};
+
+// Whether the clock came back from a query relative to a merge base
+export function isScmClock(clock: Since | ScmClock): clock is ScmClock {
+  return typeof clock == "object" && "scm" in clock && "clock" in clock &&
+    typeof clock.scm.mergebase == "string";
+}
+
+// The capabilities that the server needs to answer a query or
+// subscription with this spec
+function specCapabilities(spec: QuerySpec) {
+  const capabilities = requiredCapabilities(
+    ...spec.expression ? [spec.expression] : [],
+  );
+  if (spec.relative_root) {
+    capabilities.push("relative_root");
+  }
+  if (spec.since && typeof spec.since == "object") {
+    capabilities.push("scm-since");
+  }
+  for (const field of spec.fields || []) {
+    capabilities.push(`field-${field}`);
+  }
+  return capabilities;
+}
+
+// Send a command and wait for the response
+export function sendCommand<C extends CommandName>(
+  client: Client,
+  args: CommandTuple<C>,
+  options?: CommandOptions,
+) {
+  return new Promise<CommandResponse<C>>((resolve, reject) => {
+    client.command(args, (error, resp) => {
+      if (error) return reject(error);
+      resolve(resp!);
+    }, options);
+  });
+}
+
+/**
+ * A directory watched through `watch-project`.  Each Project is bound to
+ * the watch root that the server picked for it, so several unrelated
+ * checkouts can be watched over a single connection.
+ */
+export class Project {
+  #client: Client;
+  #events: EventEmitter;
+  #detach: (project: Project) => boolean;
+  #subscriptions = new Map<string, ActiveSubscription>();
+
+  // The directory that was passed to watchProject
+  readonly root: string;
+  // The root of the watch that the server is using for it
+  watch: string;
+  // The path of root, relative to watch
+  relativePath?: string;
+
+  constructor(
+    client: Client,
+    events: EventEmitter,
+    root: string,
+    resp: CommandResponse<"watch-project">,
+    // Forget the project, returning whether another project still
+    // uses the same watch
+    detach: (project: Project) => boolean,
+  ) {
+    this.#client = client;
+    this.#events = events;
+    this.#detach = detach;
+    this.root = root;
+    this.watch = resp.watch;
+    this.relativePath = resp.relative_path;
+  }
+
+  #command<C extends CommandName>(
+    args: CommandTuple<C>,
+    options?: CommandOptions,
+  ) {
+    return sendCommand(this.#client, args, options);
+  }
+
+  // Check that the server has the capabilities before using them
+  async #require(capabilities: string[], options?: CommandOptions) {
+    if (capabilities.length) {
+      await this.#client.capabilityCheck({ required: capabilities }, options);
+    }
+  }
+
+  async clock(options?: CommandOptions & { sync_timeout?: number }) {
+    const { signal, timeout, sync_timeout } = options || {};
+    const { clock } = await this.#command(
+      sync_timeout === undefined
+        ? ["clock", this.watch]
+        : ["clock", this.watch, { sync_timeout }],
+      { signal, timeout },
+    );
+    return clock;
+  }
+
+  /**
+   * Run a one-shot query against the project.
+   * `relative_root` is relative to the directory passed to watchProject.
+   */
+  async query<F extends FieldName = "name">(
+    options: QueryOptions<F> = {},
+  ): Promise<QueryResult<F>> {
+    const { signal, timeout, fields, relative_root, ...spec } = options;
+    const projectRoot = this.relativePath || "";
+    const relativeRoot = relative_root
+      ? join(projectRoot, relative_root)
+      : projectRoot;
+
+    const query: QuerySpec = {
+      ...spec,
+      fields: fields ? [...new Set<FieldName>(["name", ...fields])] : undefined,
+      relative_root: relativeRoot || undefined,
+    };
+    await this.#require(specCapabilities(query), { signal, timeout });
+    const resp = await this.#command(["query", this.watch, query], {
+      signal,
+      timeout,
+    });
+
+    const base = resolve(this.watch, relativeRoot);
+    const files = resp.files.map((file) => {
+      // Only asking for names gets us bare strings rather than records
+      const record = typeof file === "string" ? { name: file } : file;
+      return {
+        ...record,
+        path: resolve(base, record.name!),
+        relativePath: join(relative_root || "", record.name!),
+      } as FileRecord<F>;
+    });
+    return {
+      clock: resp.clock,
+      is_fresh_instance: resp.is_fresh_instance,
+      files,
+    };
+  }
+
+  async subscribe<T extends { root: string; files: string[] }>(
+    sub: SubscribeSpec,
+    cb: (resp: T) => void,
+    options: SubscribeOptions = {},
+  ) {
+    await this.#require(specCapabilities(sub));
+    const uid = v4.generate();
+    if (!sub.since) {
+      sub = { ...sub, since: await this.clock() };
+    }
+
+    const onSubscription = (resp: SubscriptionResponse | StateResponse) => {
+      if (!resp || resp.subscription != uid) return;
+      const root = this.relativePath
+        ? resolve(resp.root, this.relativePath)
+        : resp.root;
+
+      if ("state-enter" in resp || "state-leave" in resp) {
+        const { onState } = options;
+        const type = "state-enter" in resp ? "state-enter" : "state-leave";
+        onState?.({
+          type,
+          state: resp[type]!,
+          root,
+          clock: resp.clock,
+          subscription: resp.subscription,
+          metadata: resp.metadata,
+          abandoned: resp.abandoned,
+        });
+        return;
+      }
+
+      // Only updates carry the merge base along with the clock, so
+      // that's what we pick up from when resubscribing
+      active.clock = resp.clock;
+      if (active.restoring) {
+        active.restoring = false;
+        this.#events.emit("resubscribed", {
+          subscription: uid,
+          clock: resp.clock,
+          is_fresh_instance: (resp as SubscriptionResponse).is_fresh_instance,
+        });
+      }
+
+      const { files } = resp as SubscriptionResponse;
+      if (!files || !files.length) return;
+
+      const update = { ...resp as unknown as T, root };
+      if (settler) {
+        settler.push(update);
+      } else {
+        cb(update);
+      }
+    };
+    const { settle, maxWait } = options;
+    const settler = settle !== undefined || maxWait !== undefined
+      ? new Settler<T>({ settle, maxWait }, cb)
+      : undefined;
+    const active: ActiveSubscription = {
+      sub,
+      detach: () => {
+        this.#client.off("subscription", onSubscription);
+        settler?.cancel();
+      },
+    };
+    // Listen before subscribing, since the first update can arrive
+    // along with the response
+    this.#subscriptions.set(uid, active);
+    this.#client.on("subscription", onSubscription);
+    try {
+      await this.#command(["subscribe", this.watch, uid, sub]);
+    } catch (e) {
+      this.#subscriptions.delete(uid);
+      active.detach();
+      throw e;
+    }
+
+    return () => {
+      this.#subscriptions.delete(uid);
+      active.detach();
+      return this.#command(["unsubscribe", this.watch, uid]);
+    };
+  }
+
+  /**
+   * Subscribe with each update normalized into a ChangeEvent.  The fields
+   * needed to classify the changes are requested along with any others,
+   * and `relative_root` is relative to the directory passed to
+   * watchProject.
+   */
+  subscribeChanges(
+    sub: SubscribeSpec,
+    cb: (event: ChangeEvent) => void,
+    options?: SubscribeOptions,
+  ) {
+    const relativeRoot = join(
+      this.relativePath || "",
+      sub.relative_root || "",
+    );
+    return this.subscribe<
+      Omit<SubscriptionResponse, "files"> & { files: string[] }
+    >(
+      {
+        ...sub,
+        fields: [...new Set([...changeFields, ...sub.fields || []])],
+        relative_root: relativeRoot == "." ? undefined : relativeRoot,
+      },
+      (resp) => {
+        const base = resolve(this.watch, relativeRoot);
+        const files = resp.files as FileResult[];
+        const changes = files.map((file): FileChange => {
+          const record = typeof file === "string" ? { name: file } : file;
+          const path = resolve(base, record.name!);
+          const type = classifyChange(record);
+          return {
+            type,
+            path,
+            relativePath: relative(resp.root, path),
+            fileType: type == "deleted" ? undefined : record.type,
+            size: record.size,
+            mtime: record.mtime,
+          };
+        });
+        cb({
+          root: resp.root,
+          subscription: resp.subscription,
+          clock: resp.clock,
+          is_fresh_instance: !!resp.is_fresh_instance,
+          changes,
+        });
+      },
+      options,
+    );
+  }
+
+  /**
+   * Re-establish the watch and subscriptions on a new connection,
+   * picking each subscription up from the last clock that it saw
+   */
+  async restore() {
+    const resp = await this.#command(["watch-project", this.root]);
+    this.watch = resp.watch;
+    this.relativePath = resp.relative_path;
+
+    for (const [uid, active] of this.#subscriptions) {
+      active.restoring = true;
+      await this.#command(["subscribe", this.watch, uid, {
+        ...active.sub,
+        since: active.clock || active.sub.since,
+      }]);
+    }
+  }
+
+  async stateEnter(
+    name: string,
+    metadata?: unknown,
+    options?: CommandOptions,
+  ) {
+    await this.#require(["cmd-state-enter"], options);
+    return this.#command(
+      ["state-enter", this.watch, { name, metadata }],
+      options,
+    );
+  }
+
+  async stateLeave(
+    name: string,
+    metadata?: unknown,
+    options?: CommandOptions,
+  ) {
+    await this.#require(["cmd-state-leave"], options);
+    return this.#command(
+      ["state-leave", this.watch, { name, metadata }],
+      options,
+    );
+  }
+
+  /**
+   * Assert the named state on the project while fn runs, so that
+   * subscriptions that defer or drop on it hold back their updates.
+   * The state is left even if fn throws.
+   */
+  async withState<R>(
+    name: string,
+    fn: () => R | Promise<R>,
+    metadata?: unknown,
+  ): Promise<R> {
+    await this.stateEnter(name, metadata);
+    try {
+      return await fn();
+    } finally {
+      await this.stateLeave(name, metadata);
+    }
+  }
+
+  /**
+   * Define a trigger, replacing any existing one with the same name.
+   * `relative_root` is relative to the directory passed to watchProject.
+   */
+  async trigger(
+    spec: TriggerSpec | TriggerBuilder,
+    options?: CommandOptions,
+  ) {
+    if (spec instanceof TriggerBuilder) {
+      spec = spec.build();
+    }
+    const relativeRoot = join(
+      this.relativePath || "",
+      spec.relative_root || "",
+    );
+    const trigger = {
+      ...spec,
+      relative_root: relativeRoot == "." ? undefined : relativeRoot,
+    };
+    await this.#require(
+      [
+        ...requiredCapabilities(
+          ...trigger.expression ? [trigger.expression] : [],
+        ),
+        ...trigger.relative_root ? ["relative_root"] : [],
+      ],
+      options,
+    );
+    return this.#command(["trigger", this.watch, trigger], options);
+  }
+
+  // The triggers defined on the watch
+  async triggerList(options?: CommandOptions) {
+    const { triggers } = await this.#command(
+      ["trigger-list", this.watch],
+      options,
+    );
+    return triggers;
+  }
+
+  triggerDel(name: string, options?: CommandOptions) {
+    return this.#command(["trigger-del", this.watch, name], options);
+  }
+
+  // Cancel the subscriptions and forget the project, returning whether
+  // another project still uses the same watch
+  async #close() {
+    const unsubscribes = [];
+    for (const [uid, active] of this.#subscriptions) {
+      active.detach();
+      if (this.#client.connected) {
+        unsubscribes.push(this.#command(["unsubscribe", this.watch, uid]));
+      }
+    }
+    this.#subscriptions.clear();
+    const shared = this.#detach(this);
+    await Promise.all(unsubscribes);
+    return shared;
+  }
+
+  // Stop delivering updates without telling the server, for when the
+  // connection is going away anyway
+  forget() {
+    for (const active of this.#subscriptions.values()) {
+      active.detach();
+    }
+    this.#subscriptions.clear();
+  }
+
+  /**
+   * Cancel the subscriptions made through this project and forget it,
+   * leaving the watch in place on the server
+   */
+  async close() {
+    await this.#close();
+  }
+
+  /**
+   * Cancel the subscriptions made through this project and, unless
+   * another project in this instance shares the same watch, remove the
+   * watch from the server
+   */
+  async unwatch() {
+    if (!await this.#close()) {
+      await this.#command(["watch-del", this.watch]);
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import type { FileResult } from "./commands.ts";
+
+export type SettleOptions = {
+  // Hold back updates until none have arrived for this many milliseconds
+  settle?: number;
+  // Deliver no later than this many milliseconds after the first update
+  // that was held back, even if the updates haven't settled.  Without
+  // settle, updates are simply batched for this long.
+  maxWait?: number;
+};
+
+type Update = { files: FileResult[]; is_fresh_instance?: boolean };
+
+function nameOf(file: FileResult) {
+  return typeof file === "string" ? file : file.name!;
+}
+
+/**
+ * Combine two records for the same file, the later taking precedence.
+ * A file that was created and then changed is still new, but one that
+ * was created and then deleted is reported as deleted.
+ */
+export function mergeFile(earlier: FileResult, later: FileResult) {
+  if (typeof earlier === "string" || typeof later === "string") {
+    return later;
+  }
+  const merged = { ...earlier, ...later };
+  if (earlier.new && later.exists !== false) {
+    merged.new = true;
+  }
+  return merged;
+}
+
+/**
+ * Holds back subscription updates until they settle, then delivers them
+ * as one, with the files coalesced by name.  The rest of the delivered
+ * update, such as its clock, comes from the latest one.
+ */
+export class Settler<T extends Update> {
+  #options: SettleOptions;
+  #deliver: (update: T) => void;
+  #latest?: T;
+  #freshInstance = false;
+  #files = new Map<string, FileResult>();
+  #settleTimer?: ReturnType<typeof setTimeout>;
+  #maxWaitTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(options: SettleOptions, deliver: (update: T) => void) {
+    this.#options = options;
+    this.#deliver = deliver;
+  }
+
+  push(update: T) {
+    this.#latest = update;
+    this.#freshInstance ||= !!update.is_fresh_instance;
+    for (const file of update.files) {
+      const name = nameOf(file);
+      const earlier = this.#files.get(name);
+      this.#files.set(name, earlier ? mergeFile(earlier, file) : file);
+    }
+
+    const { settle, maxWait } = this.#options;
+    if (settle !== undefined || maxWait === undefined) {
+      clearTimeout(this.#settleTimer);
+      this.#settleTimer = setTimeout(() => this.flush(), settle || 0);
+    }
+    if (maxWait !== undefined && this.#maxWaitTimer === undefined) {
+      this.#maxWaitTimer = setTimeout(() => this.flush(), maxWait);
+    }
+  }
+
+  // Deliver whatever is being held back right away
+  flush() {
+    const latest = this.#latest;
+    const files = [...this.#files.values()];
+    const freshInstance = this.#freshInstance;
+    this.cancel();
+    if (latest) {
+      this.#deliver({ ...latest, is_fresh_instance: freshInstance, files });
+    }
+  }
+
+  // Drop whatever is being held back
+  cancel() {
+    clearTimeout(this.#settleTimer);
+    clearTimeout(this.#maxWaitTimer);
+    this.#settleTimer = undefined;
+    this.#maxWaitTimer = undefined;
+    this.#latest = undefined;
+    this.#freshInstance = false;
+    this.#files.clear();
+  }
+}
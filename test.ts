@@ -0,0 +1,1296 @@
+import {
+  assertEquals,
+  assertRejects,
+} from "https://deno.land/std@0.108.0/testing/asserts.ts";
+import * as bser from "./bser/mod.ts";
+import { capabilityVersions } from "./capabilities.ts";
+import { BufferOverflowError, Channel } from "./channel.ts";
+import type { ChangeEvent } from "./changes.ts";
+import { make, wait } from "./cli.ts";
+import {
+  Client,
+  ClientOptions,
+  CommandAbortedError,
+  CommandOptions,
+  CommandTimeoutError,
+} from "./client.ts";
+import { JsonDecoder } from "./codec.ts";
+import { evaluate, wildmatch } from "./evaluate.ts";
+import type {
+  CommandName,
+  CommandResponse,
+  CommandTuple,
+  SubscribeSpec,
+} from "./commands.ts";
+import * as expr from "./expression.ts";
+import { FakeWatchman, FakeWatchmanOptions } from "./testing/fake_watchman.ts";
+import { defineTrigger, readTriggerFiles } from "./trigger.ts";
+import { isScmClock } from "./project.ts";
+import { mergeFile, Settler } from "./settle.ts";
+import { Watchman } from "./watchman.ts";
+
+// Run fn with WATCHMAN_SOCK pointing at a fresh fake server
+async function withFakeServer(
+  fn: (server: FakeWatchman) => Promise<void>,
+  options?: FakeWatchmanOptions,
+) {
+  const server = await FakeWatchman.start(options);
+  const sockname = Deno.env.get("WATCHMAN_SOCK");
+  Deno.env.set("WATCHMAN_SOCK", server.sockname);
+  try {
+    await fn(server);
+  } finally {
+    if (sockname === undefined) {
+      Deno.env.delete("WATCHMAN_SOCK");
+    } else {
+      Deno.env.set("WATCHMAN_SOCK", sockname);
+    }
+    await server.close();
+  }
+}
+
+// Wait for the condition to hold, checking every few milliseconds
+async function until(
+  condition: () => boolean | Promise<boolean>,
+  timeout = 5000,
+) {
+  const deadline = Date.now() + timeout;
+  while (!await condition()) {
+    if (Date.now() > deadline) {
+      throw new Error(`Gave up waiting after ${timeout}ms`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+Deno.test("expression builders", () => {
+  assertEquals(
+    expr.allof(
+      expr.type("f"),
+      expr.anyof(expr.suffix("ts"), expr.suffix(["js", "jsx"])),
+      expr.not(expr.dirname("node_modules")),
+    ),
+    [
+      "allof",
+      ["type", "f"],
+      ["anyof", ["suffix", "ts"], ["suffix", ["js", "jsx"]]],
+      ["not", ["dirname", "node_modules"]],
+    ],
+  );
+  assertEquals(expr.match("*.ts"), ["match", "*.ts"]);
+  assertEquals(
+    expr.match(".*rc", undefined, { includedotfiles: true }),
+    ["match", ".*rc", "basename", { includedotfiles: true }],
+  );
+  assertEquals(expr.imatch("src/**", "wholename"), [
+    "imatch",
+    "src/**",
+    "wholename",
+  ]);
+  assertEquals(expr.name(["a", "b"], "wholename"), [
+    "name",
+    ["a", "b"],
+    "wholename",
+  ]);
+  assertEquals(expr.idirname("lib", ["ge", 2]), [
+    "idirname",
+    "lib",
+    ["depth", "ge", 2],
+  ]);
+  assertEquals(expr.since("c:123:234", "oclock"), [
+    "since",
+    "c:123:234",
+    "oclock",
+  ]);
+  assertEquals(expr.size("gt", 1024), ["size", "gt", 1024]);
+  assertEquals(expr.empty(), ["empty"]);
+  assertEquals(expr.exists(), ["exists"]);
+  assertEquals(expr.pcre("^foo"), ["pcre", "^foo"]);
+});
+
+Deno.test("requiredCapabilities", () => {
+  assertEquals(expr.requiredCapabilities(expr.suffix("ts")), []);
+  assertEquals(
+    expr.requiredCapabilities(
+      expr.allof(
+        expr.not(expr.dirname("a")),
+        expr.anyof(expr.idirname("b"), expr.match("**/*.ts", "wholename")),
+      ),
+      expr.suffix(["js", "ts"]),
+      expr.dirname("c"),
+      expr.anyof(expr.pcre("\\.ts$"), expr.not(expr.ipcre("^test"))),
+    ),
+    [
+      "suffix-set",
+      "term-dirname",
+      "term-idirname",
+      "term-ipcre",
+      "term-pcre",
+      "wildmatch",
+    ],
+  );
+});
+
+Deno.test("every required capability has a version", () => {
+  const required = expr.requiredCapabilities(
+    expr.allof(
+      expr.anyof(expr.not("true"), "false"),
+      expr.match("**/*.ts", "wholename", { includedotfiles: true }),
+      expr.imatch("*.TS"),
+      expr.suffix(["js", "ts"]),
+      expr.type("f"),
+      expr.name("a.ts"),
+      expr.iname(["A.TS"]),
+      expr.dirname("src"),
+      expr.idirname("SRC"),
+      expr.since(0),
+      expr.size("gt", 0),
+      expr.empty(),
+      expr.exists(),
+      expr.pcre("a"),
+      expr.ipcre("a"),
+    ),
+  );
+  assertEquals(required.filter((name) => !(name in capabilityVersions)), []);
+});
+
+Deno.test("Channel", async () => {
+  let returned = false;
+  const channel = new Channel<number>({}, () => {
+    returned = true;
+  });
+  channel.push(1);
+  channel.push(2);
+  const values = [];
+  for await (const value of channel) {
+    values.push(value);
+    if (value == 2) {
+      setTimeout(() => channel.push(3), 0);
+    }
+    if (value == 3) {
+      break;
+    }
+  }
+  assertEquals(values, [1, 2, 3]);
+  assertEquals(returned, true);
+});
+
+Deno.test("Channel overflow", async () => {
+  async function drain(channel: Channel<number>) {
+    const values = [];
+    for await (const value of channel) {
+      values.push(value);
+    }
+    return values;
+  }
+
+  function fill(channel: Channel<number>) {
+    [1, 2, 3, 4].forEach((value) => channel.push(value));
+    channel.close();
+    return channel;
+  }
+
+  assertEquals(
+    await drain(fill(new Channel({ bufferSize: 2 }))),
+    [3, 4],
+  );
+  assertEquals(
+    await drain(fill(new Channel({ bufferSize: 2, overflow: "drop-newest" }))),
+    [1, 2],
+  );
+
+  // Buffered values are delivered before the error
+  const values: number[] = [];
+  await assertRejects(async () => {
+    const channel = new Channel<number>({ bufferSize: 2, overflow: "error" });
+    for await (const value of fill(channel)) {
+      values.push(value);
+    }
+  }, BufferOverflowError);
+  assertEquals(values, [1, 2]);
+});
+
+Deno.test("evaluate", () => {
+  const file = {
+    name: "src/lib/a.test.ts",
+    exists: true,
+    type: "f" as const,
+    size: 10,
+    mtime: 100,
+    ctime: 100,
+  };
+  assertEquals(
+    evaluate(
+      expr.allof(
+        expr.suffix(["js", "ts"]),
+        expr.dirname("src", ["ge", 1]),
+        expr.not(expr.dirname("node_modules")),
+        expr.size("gt", 5),
+      ),
+      file,
+    ),
+    true,
+  );
+  assertEquals(evaluate(expr.match("*.test.ts"), file), true);
+  assertEquals(evaluate(expr.match("src/*.ts", "wholename"), file), false);
+  assertEquals(evaluate(expr.match("src/**/*.ts", "wholename"), file), true);
+  assertEquals(evaluate(expr.iname("A.TEST.TS"), file), true);
+  assertEquals(evaluate(expr.since(99, "mtime"), file), true);
+  assertEquals(evaluate(expr.empty(), { ...file, size: 0 }), true);
+  assertEquals(
+    evaluate(expr.empty(), { ...file, size: 0, exists: false }),
+    false,
+  );
+  assertEquals(wildmatch("*").test(".hidden"), false);
+  assertEquals(wildmatch("*", { includedotfiles: true }).test(".hidden"), true);
+  assertEquals(wildmatch("[!a]?").test("ba"), true);
+});
+
+for (const protocol of ["bser", "json"] as const) {
+  Deno.test(`Client with the fake server over ${protocol}`, async () => {
+    await withFakeServer(async (server) => {
+      server.addRoot("/repo");
+      server.writeFile("/repo/a.ts", { size: 3 });
+      server.writeFile("/repo/b.js");
+
+      const client = new Client({ protocol });
+      const { capabilities } = await client.capabilityCheck({
+        required: ["relative_root"],
+      });
+      assertEquals(capabilities, { relative_root: true });
+      assertEquals(client.bserVersion, protocol == "bser" ? 2 : undefined);
+
+      const send = <C extends CommandName>(...args: CommandTuple<C>) =>
+        new Promise<CommandResponse<C>>((resolve, reject) => {
+          client.command(
+            args,
+            (error, resp) => error ? reject(error) : resolve(resp!),
+          );
+        });
+      assertEquals(await send("watch-project", "/repo"), {
+        version: server.version,
+        watch: "/repo",
+        watcher: "fake",
+      });
+      const resp = await send("query", "/repo", {
+        fields: ["name", "size"],
+        suffix: "ts",
+      });
+      assertEquals(resp.files, [{ name: "a.ts", size: 3 }]);
+      assertEquals(resp.is_fresh_instance, true);
+      client.end();
+    });
+  });
+}
+
+Deno.test("command arguments are type checked", () => {
+  const client = new Client();
+  // Never called; type checking the test is what tests it
+  const _unchecked = () => {
+    // @ts-expect-error the path must be a string
+    client.command(["watch-project", 123]);
+    // @ts-expect-error there is no such command
+    client.command(["no-such-command"]);
+    // @ts-expect-error a query needs its root
+    client.command(["query"]);
+  };
+  client.end();
+});
+
+Deno.test("Watchman with the fake server", async () => {
+  await withFakeServer(async (server) => {
+    server.addRoot("/repo");
+    server.writeFile("/repo/src/a.ts");
+
+    const watchman = new Watchman();
+    const project = await watchman.watchProject("/repo/src");
+    assertEquals(project.watch, "/repo");
+    assertEquals(project.relativePath, "src");
+
+    const { files } = await project.query({ fields: ["name"] });
+    assertEquals(files.map((file) => file.path), ["/repo/src/a.ts"]);
+
+    const changes: { root: string; files: string[] }[] = [];
+    let changed: () => void;
+    const updated = new Promise<void>((resolve) => changed = resolve);
+    const unsubscribe = await project.subscribe<
+      { root: string; files: string[] }
+    >(
+      // Subscriptions start from now unless told otherwise
+      { fields: ["name"], expression: expr.suffix("ts"), since: undefined },
+      (resp) => {
+        changes.push(resp);
+        changed();
+      },
+    );
+    const [, , , spec] = server.commands.find(([name]) => name == "subscribe")!;
+    assertEquals(typeof (spec as SubscribeSpec).since, "string");
+    server.writeFile("/repo/src/b.ts");
+    server.writeFile("/repo/src/c.js");
+    await updated;
+    assertEquals(changes.length, 1);
+    assertEquals(changes[0].root, "/repo/src");
+    assertEquals(changes[0].files, ["src/b.ts"]);
+
+    await unsubscribe();
+    watchman.end();
+  });
+});
+
+Deno.test("JsonDecoder", () => {
+  const decoder = new JsonDecoder();
+  const values: unknown[] = [];
+  const errors: unknown[] = [];
+  decoder.on("value", (value) => values.push(value));
+  decoder.on("error", (error) => errors.push(error));
+
+  const bytes = new TextEncoder().encode('{"a":"\u00e9"}\n\n[1]\nnope\n{"b');
+  // Split in the middle of a multi-byte character
+  decoder.append(bytes.subarray(0, 7));
+  decoder.append(bytes.subarray(7));
+  assertEquals(values, [{ a: "\u00e9" }, [1]]);
+  assertEquals(errors.length, 1);
+  decoder.append(new TextEncoder().encode('":true}\n'));
+  assertEquals(values, [{ a: "\u00e9" }, [1], { b: true }]);
+});
+
+Deno.test("triggers", async () => {
+  const spec = defineTrigger("lint", "deno", "lint")
+    .expression(expr.suffix("ts"))
+    .appendFiles()
+    .stdin(["name", "size"])
+    .maxFilesStdin(10)
+    .stdout("lint.log", { append: true })
+    .stderr("lint.err")
+    .build();
+  assertEquals(spec, {
+    name: "lint",
+    command: ["deno", "lint"],
+    expression: ["suffix", "ts"],
+    append_files: true,
+    stdin: ["name", "size"],
+    max_files_stdin: 10,
+    stdout: ">>lint.log",
+    stderr: ">lint.err",
+  });
+
+  await withFakeServer(async (server) => {
+    server.addRoot("/repo");
+    const watchman = new Watchman();
+    await watchman.watchProject("/repo/src");
+    assertEquals((await watchman.trigger(spec)).disposition, "created");
+    assertEquals(await watchman.triggerList(), [
+      { ...spec, relative_root: "src" },
+    ]);
+    assertEquals((await watchman.triggerDel("lint")).deleted, true);
+    assertEquals(await watchman.triggerList(), []);
+    watchman.end();
+  });
+});
+
+Deno.test("readTriggerFiles", async () => {
+  const files = [{ name: "a.ts", size: 1 }];
+  const reader = (bytes: Uint8Array) => ({
+    read(p: Uint8Array) {
+      const n = Math.min(p.length, bytes.length);
+      p.set(bytes.subarray(0, n));
+      bytes = bytes.subarray(n);
+      return Promise.resolve(n || null);
+    },
+  });
+  assertEquals(
+    await readTriggerFiles(
+      reader(new TextEncoder().encode(JSON.stringify(files))),
+    ),
+    files,
+  );
+  assertEquals(
+    await readTriggerFiles(reader(bser.dumpToBuffer(files))),
+    files,
+  );
+  assertEquals(
+    await readTriggerFiles(reader(new TextEncoder().encode("a.ts\nb.ts\n"))),
+    ["a.ts", "b.ts"],
+  );
+});
+
+Deno.test("queries relative to a merge base", async () => {
+  await withFakeServer(async (server) => {
+    server.addRoot("/repo");
+    server.writeFile("/repo/a.ts");
+    server.writeFile("/repo/b.ts");
+    server.setMergebase("main", "abc");
+    server.writeFile("/repo/c.ts");
+    server.remove("/repo/a.ts");
+
+    const watchman = new Watchman();
+    const project = await watchman.watchProject("/repo");
+    const scm = { "mergebase-with": "main" };
+    const first = await project.query({
+      since: { scm },
+      fields: ["name", "exists"],
+    });
+    assertEquals(first.clock, {
+      clock: server.clock,
+      scm: { ...scm, mergebase: "abc" },
+    });
+    assertEquals(isScmClock(first.clock), true);
+    assertEquals(first.is_fresh_instance, true);
+    assertEquals(
+      first.files.map(({ name, exists }) => ({ name, exists })),
+      [{ name: "a.ts", exists: false }, { name: "c.ts", exists: true }],
+    );
+
+    server.writeFile("/repo/d.ts");
+    const second = await project.query({
+      since: first.clock,
+      fields: ["name"],
+    });
+    assertEquals(second.is_fresh_instance, false);
+    assertEquals(second.files.map((file) => file.name), ["d.ts"]);
+
+    // Moving the merge base starts over relative to the new one
+    server.setMergebase("main", "def");
+    server.writeFile("/repo/e.ts");
+    const third = await project.query({
+      since: second.clock,
+      fields: ["name"],
+    });
+    assertEquals(third.is_fresh_instance, true);
+    assertEquals(third.files.map((file) => file.name), ["e.ts"]);
+    watchman.end();
+  });
+});
+
+for (const protocol of ["bser", "json"] as const) {
+  Deno.test(`subscribing relative to a merge base over ${protocol}`, async () => {
+    await withFakeServer(async (server) => {
+      server.addRoot("/repo");
+      server.writeFile("/repo/a.ts");
+      server.setMergebase("main", "abc");
+      server.writeFile("/repo/b.ts");
+
+      const watchman = new Watchman({ protocol });
+      const project = await watchman.watchProject("/repo");
+      const updates: string[][] = [];
+      // The initial results follow hard on the heels of the response
+      await project.subscribe<{ root: string; files: string[] }>(
+        { since: { scm: { "mergebase-with": "main" } }, fields: ["name"] },
+        ({ files }) => updates.push(files),
+      );
+      await until(() => updates.length == 1);
+      assertEquals(updates, [["b.ts"]]);
+      watchman.end();
+    });
+  });
+}
+
+Deno.test("Watchman.logs", async () => {
+  await withFakeServer(async (server) => {
+    const watchman = new Watchman();
+    const errors = watchman.logs("error");
+    const debug = watchman.logs("debug");
+    const nextError = errors.next();
+    const nextDebug = debug.next();
+    await watchman.command("log", "debug", "hello");
+    await watchman.command("log", "error", "oops");
+
+    const { value } = await nextDebug;
+    assertEquals(value.message, "hello");
+    assertEquals(value.thread, "fake");
+    assertEquals(value.time instanceof Date, true);
+    assertEquals((await debug.next()).value.message, "oops");
+    // Both messages reach both loops, since the server doesn't say
+    // which level each message was logged at
+    assertEquals((await nextError).value.message, "hello");
+
+    await debug.return!();
+    await errors.return!();
+    assertEquals(server.commands.filter(([name]) => name == "log-level"), [
+      ["log-level", "error"],
+      ["log-level", "debug"],
+      ["log-level", "error"],
+      ["log-level", "off"],
+    ]);
+
+    // A loop that fails stops counting towards the level
+    server.refuse("log-level");
+    await assertRejects(
+      () => watchman.logs("debug").next(),
+      Error,
+      "log-level was refused",
+    );
+    assertEquals(watchman.client.listenerCount("log"), 0);
+    await assertRejects(
+      () => watchman.logs("error").next(),
+      Error,
+      "log-level was refused",
+    );
+    assertEquals(
+      server.commands.filter(([name]) => name == "log-level").slice(-2),
+      [["log-level", "debug"], ["log-level", "error"]],
+    );
+    watchman.end();
+  });
+});
+
+Deno.test("mergeFile", () => {
+  assertEquals(
+    mergeFile({ name: "a", new: true, exists: true, size: 1 }, {
+      name: "a",
+      new: false,
+      exists: true,
+      size: 2,
+    }),
+    { name: "a", new: true, exists: true, size: 2 },
+  );
+  assertEquals(
+    mergeFile({ name: "a", new: true, exists: true }, {
+      name: "a",
+      new: false,
+      exists: false,
+    }),
+    { name: "a", new: false, exists: false },
+  );
+  assertEquals(mergeFile("a", "a"), "a");
+});
+
+Deno.test("Settler batches for maxWait without settle", async () => {
+  const delivered: unknown[][] = [];
+  const settler = new Settler<{ files: string[] }>(
+    { maxWait: 50 },
+    ({ files }) => delivered.push(files),
+  );
+  settler.push({ files: ["a.ts"] });
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  settler.push({ files: ["b.ts"] });
+  assertEquals(delivered, []);
+  await until(() => delivered.length == 1);
+  settler.push({ files: ["c.ts"] });
+  await until(() => delivered.length == 2);
+  assertEquals(delivered, [["a.ts", "b.ts"], ["c.ts"]]);
+});
+
+Deno.test("subscribe with settle", async () => {
+  await withFakeServer(async (server) => {
+    server.addRoot("/repo");
+    server.writeFile("/repo/old.ts");
+    const watchman = new Watchman();
+    const project = await watchman.watchProject("/repo");
+
+    const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+    const updates: { files: unknown[]; is_fresh_instance: boolean }[] = [];
+    let delivered: () => void;
+    const settled = new Promise<void>((resolve) => delivered = resolve);
+    const unsubscribe = await project.subscribe<
+      { root: string; files: string[]; is_fresh_instance: boolean }
+    >(
+      { fields: ["name", "exists", "new", "size"] },
+      (resp) => {
+        updates.push(resp);
+        delivered();
+      },
+      { settle: 50, maxWait: 1000 },
+    );
+
+    server.writeFile("/repo/a.ts", { size: 1 });
+    await tick();
+    server.writeFile("/repo/a.ts", { size: 2 });
+    server.writeFile("/repo/b.ts");
+    await tick();
+    server.remove("/repo/b.ts");
+    server.remove("/repo/old.ts");
+    await settled;
+
+    assertEquals(updates.length, 1);
+    assertEquals(updates[0].is_fresh_instance, false);
+    assertEquals(updates[0].files, [
+      { name: "a.ts", exists: true, new: true, size: 2 },
+      { name: "b.ts", exists: false, new: false, size: 0 },
+      { name: "old.ts", exists: false, new: false, size: 0 },
+    ]);
+
+    // maxWait delivers even while changes keep coming
+    updates.length = 0;
+    const unsubscribeMaxWait = await project.subscribe<
+      { root: string; files: string[]; is_fresh_instance: boolean }
+    >(
+      { fields: ["name"] },
+      (resp) => updates.push(resp),
+      { settle: 1000, maxWait: 30 },
+    );
+    for (let i = 0; i < 10 && !updates.length; i++) {
+      server.writeFile(`/repo/c${i}.ts`);
+      await tick();
+    }
+    assertEquals(updates.length, 1);
+
+    await unsubscribe();
+    await unsubscribeMaxWait();
+    watchman.end();
+  });
+});
+
+Deno.test("the watchfs backend", async () => {
+  const dir = await Deno.realPath(await Deno.makeTempDir());
+  await Deno.mkdir(`${dir}/.git`);
+  await Deno.mkdir(`${dir}/src`);
+  await Deno.writeTextFile(`${dir}/src/a.ts`, "a");
+  await Deno.writeTextFile(`${dir}/README.md`, "");
+  const watchman = new Watchman({ backend: "watchfs" });
+  try {
+    assertEquals((await watchman.check()).backend, "watchfs");
+    const project = await watchman.watchProject(`${dir}/src`);
+    assertEquals(project.watch, dir);
+
+    const result = await project.query({
+      expression: expr.suffix("ts"),
+      fields: ["name", "size", "type"],
+    });
+    assertEquals(
+      result.files.map(({ name, size, type }) => ({ name, size, type })),
+      [{ name: "a.ts", size: 1, type: "f" }],
+    );
+
+    let updated: (files: string[]) => void;
+    const update = new Promise<string[]>((resolve) => updated = resolve);
+    const unsubscribe = await project.subscribe(
+      { expression: expr.suffix("ts"), fields: ["name"] },
+      (resp) => updated(resp.files),
+    );
+    await Deno.writeTextFile(`${dir}/README.md`, "changed");
+    await Deno.writeTextFile(`${dir}/src/b.ts`, "b");
+    assertEquals(await update, ["src/b.ts"]);
+    await unsubscribe();
+
+    // A change that leaves the size alone within the same second
+    const updates: string[][] = [];
+    const unsubscribeSize = await project.subscribe(
+      { expression: expr.name("a.ts"), fields: ["name"] },
+      (resp) => updates.push(resp.files),
+    );
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await Deno.writeTextFile(`${dir}/src/a.ts`, "z");
+    await until(() => updates.length == 1);
+    assertEquals(updates, [["src/a.ts"]]);
+    const { files: [file] } = await project.query({
+      expression: expr.name("a.ts"),
+      fields: ["mtime", "mtime_ms"],
+    });
+    assertEquals(file.mtime, Math.floor(file.mtime_ms / 1000));
+    await unsubscribeSize();
+  } finally {
+    watchman.end();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("cli wait", async () => {
+  await withFakeServer(async (server) => {
+    server.addRoot("/repo");
+    server.writeFile("/repo/src/old.ts");
+    const watchman = new Watchman();
+
+    const seen: string[] = [];
+    const waiting = wait(watchman, {
+      paths: ["/repo/src"],
+      patterns: ["**/*.ts"],
+      maxEvents: 2,
+      onChange: (path) => seen.push(path),
+    });
+    while (!server.commands.some(([name]) => name == "subscribe")) {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+    }
+    server.writeFile("/repo/src/README.md");
+    server.writeFile("/repo/src/a.ts");
+    server.writeFile("/repo/src/lib/b.ts");
+    server.writeFile("/repo/src/c.ts");
+    // The changes arrive as one update, sorted by name
+    assertEquals(await waiting, {
+      files: ["/repo/src/a.ts", "/repo/src/c.ts"],
+      timedOut: false,
+    });
+    assertEquals(seen, ["/repo/src/a.ts", "/repo/src/c.ts"]);
+
+    assertEquals(await wait(watchman, { paths: ["/repo"], timeout: 10 }), {
+      files: [],
+      timedOut: true,
+    });
+
+    // Relative paths, the current directory among them, are watched from
+    // where they resolve to and reported as given
+    const cwd = Deno.cwd();
+    server.addRoot(cwd);
+    for (const paths of [["src"], undefined]) {
+      const waiting = wait(watchman, { paths, maxEvents: 1 });
+      await until(() =>
+        server.commands.filter(([name]) => name == "subscribe").length ==
+          (paths ? 3 : 4)
+      );
+      server.writeFile(`${cwd}/src/d.ts`);
+      assertEquals(await waiting, { files: ["src/d.ts"], timedOut: false });
+    }
+    assertEquals(
+      server.commands.filter(([name]) => name == "watch-project").slice(-2),
+      [["watch-project", `${cwd}/src`], ["watch-project", cwd]],
+    );
+    watchman.end();
+  });
+});
+
+Deno.test("cli make", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    await withFakeServer(async (server) => {
+      server.addRoot("/repo");
+      const watchman = new Watchman();
+      const log = `${dir}/log`;
+      const delay = `${dir}/delay`;
+      await Deno.writeTextFile(log, "");
+      await Deno.writeTextFile(delay, "0");
+      // Logs when each run starts and, unless it's killed, finishes
+      const script = `
+        const [log, delay] = ${JSON.stringify([log, delay])};
+        const append = (line) =>
+          Deno.writeTextFile(log, line + "\\n", { append: true });
+        await append("start");
+        const ms = Number(await Deno.readTextFile(delay));
+        await new Promise((resolve) => setTimeout(resolve, ms));
+        await append("end");
+      `;
+      const runs = async () =>
+        (await Deno.readTextFile(log)).split("\n").filter(Boolean);
+      const logged = (count: number) =>
+        until(async () => (await runs()).length >= count, 10000);
+
+      const controller = new AbortController();
+      const command = [Deno.execPath(), "eval", script];
+      const started: string[][] = [];
+      const exited: (Deno.CommandStatus | Error)[] = [];
+      const making = make(watchman, {
+        paths: ["/repo"],
+        patterns: ["*.ts"],
+        command,
+        settle: 50,
+        signal: controller.signal,
+        onRun: (command) => started.push(command),
+        onExit: (status) => exited.push(status),
+      });
+      const subscribed = () =>
+        server.commands.some(([name]) => name == "subscribe");
+      await until(subscribed);
+
+      // Changes that arrive together make for one run
+      server.writeFile("/repo/a.ts");
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      server.writeFile("/repo/b.ts");
+      server.writeFile("/repo/README.md");
+      await logged(2);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      assertEquals(await runs(), ["start", "end"]);
+
+      // A change while a run is going kills it and starts another
+      await Deno.writeTextFile(delay, "10000");
+      server.writeFile("/repo/c.ts");
+      await logged(3);
+      await Deno.writeTextFile(delay, "0");
+      server.writeFile("/repo/d.ts");
+      await logged(5);
+      assertEquals(await runs(), ["start", "end", "start", "start", "end"]);
+      // The killed run isn't reported as exiting
+      await until(() => exited.length == 2);
+      assertEquals(started, [command, command, command]);
+      assertEquals(
+        exited.map((status) => "success" in status && status.success),
+        [true, true],
+      );
+
+      controller.abort();
+      await making;
+      assertEquals(server.commands.slice(-1)[0][0], "unsubscribe");
+      watchman.end();
+    });
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("subscribeChanges", async () => {
+  await withFakeServer(async (server) => {
+    server.addRoot("/repo");
+    server.writeFile("/repo/src/old.ts", { size: 1 });
+    server.writeFile("/repo/src/gone.ts");
+    const watchman = new Watchman();
+    await watchman.watchProject("/repo/src");
+
+    let received: (event: ChangeEvent) => void;
+    const event = new Promise<ChangeEvent>((resolve) => received = resolve);
+    const unsubscribe = await watchman.subscribeChanges(
+      { expression: expr.suffix("ts"), fields: ["name"] },
+      (event) => received(event),
+    );
+    const { since: _, ...spec } = server.commands.find(([name]) =>
+      name == "subscribe"
+    )![3] as SubscribeSpec;
+    assertEquals(spec, {
+      expression: ["suffix", "ts"],
+      fields: ["name", "new", "exists", "mtime", "size", "type"],
+      relative_root: "src",
+    });
+
+    server.writeFile("/repo/src/old.ts", { size: 2 });
+    server.writeFile("/repo/src/lib/new.ts");
+    server.remove("/repo/src/gone.ts");
+    const { changes, is_fresh_instance, root } = await event;
+    assertEquals(root, "/repo/src");
+    assertEquals(is_fresh_instance, false);
+    assertEquals(
+      changes.map(({ type, path, relativePath, size }) => ({
+        type,
+        path,
+        relativePath,
+        size,
+      })),
+      [
+        {
+          type: "deleted",
+          path: "/repo/src/gone.ts",
+          relativePath: "gone.ts",
+          size: 0,
+        },
+        {
+          type: "created",
+          path: "/repo/src/lib/new.ts",
+          relativePath: "lib/new.ts",
+          size: 0,
+        },
+        {
+          type: "modified",
+          path: "/repo/src/old.ts",
+          relativePath: "old.ts",
+          size: 2,
+        },
+      ],
+    );
+    assertEquals(changes[0].fileType, undefined);
+    assertEquals(changes[1].fileType, "f");
+
+    await unsubscribe();
+    watchman.end();
+  });
+});
+
+Deno.test("capability checks are cached", async () => {
+  await withFakeServer(async (server) => {
+    const client = new Client({ protocol: "json" });
+    const versions = () =>
+      server.commands.filter(([name]) => name == "version").length;
+    await client.capabilityCheck({ required: ["field-new"] });
+    assertEquals(client.capabilities, { "field-new": true });
+    assertEquals(versions(), 1);
+    assertEquals(
+      await client.capabilityCheck({ optional: ["field-new"] }),
+      { version: server.version, capabilities: { "field-new": true } },
+    );
+    assertEquals(versions(), 1);
+    client.end();
+  });
+
+  await withFakeServer(async (server) => {
+    server.addRoot("/repo");
+    const watchman = new Watchman();
+    const project = await watchman.watchProject("/repo");
+    // Negotiating BSER v2 asked about everything up front
+    assertEquals(watchman.client.capabilities["scm-since"], false);
+    const sent = server.commands.length;
+    await assertRejects(
+      () => project.stateEnter("build"),
+      Error,
+      "client required capability `cmd-state-enter` is not supported",
+    );
+    await assertRejects(
+      () => project.query({ since: { scm: { "mergebase-with": "main" } } }),
+      Error,
+      "client required capability `scm-since` is not supported",
+    );
+    assertEquals(server.commands.length, sent);
+    watchman.end();
+  }, { capabilities: ["bser-v2", "cmd-watch-project"] });
+});
+
+Deno.test("socket discovery", async () => {
+  const server = await FakeWatchman.start();
+  const dir = await Deno.makeTempDir();
+  const sockname = Deno.env.get("WATCHMAN_SOCK");
+  Deno.env.delete("WATCHMAN_SOCK");
+  try {
+    // A socket given explicitly needs no binary at all
+    let client = new Client({
+      sockname: server.sockname,
+      watchmanBinaryPath: `${dir}/missing`,
+    });
+    await client.capabilityCheck({ required: ["relative_root"] });
+    client.end();
+
+    // Otherwise the binary is asked once, with the extra args and env
+    const binary = `${dir}/watchman`;
+    await Deno.writeTextFile(
+      binary,
+      `#!/bin/sh
+echo "$@" >> "$CALLS"
+echo "{\\"sockname\\": \\"$SOCK\\"}"
+`,
+    );
+    await Deno.chmod(binary, 0o755);
+    client = new Client({
+      watchmanBinaryPath: binary,
+      watchmanArgs: ["--statefile", `${dir}/state`],
+      watchmanEnv: { CALLS: `${dir}/calls`, SOCK: server.sockname },
+      protocol: "json",
+    });
+    await client.capabilityCheck({ required: ["relative_root"] });
+    const ended = new Promise((resolve) => client.once("end", resolve));
+    client.end();
+    await ended;
+    await client.capabilityCheck({ required: ["wildmatch"] });
+    client.end();
+    assertEquals(
+      await Deno.readTextFile(`${dir}/calls`),
+      `--statefile ${dir}/state --no-pretty get-sockname\n`,
+    );
+
+    await Deno.writeTextFile(binary, "#!/bin/sh\nexec sleep 5\n");
+    client = new Client({ watchmanBinaryPath: binary, spawnTimeout: 50 });
+    const errors: Error[] = [];
+    client.on("error", (error) => errors.push(error));
+    await assertRejects(
+      () => client.capabilityCheck({ required: ["relative_root"] }),
+      Error,
+      "timed out after 50ms",
+    );
+    assertEquals(errors.length, 1);
+    client.end();
+  } finally {
+    if (sockname !== undefined) {
+      Deno.env.set("WATCHMAN_SOCK", sockname);
+    }
+    await server.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("aborting commands", async () => {
+  await withFakeServer(async (server) => {
+    server.addRoot("/repo");
+    const connect = (options?: ClientOptions) => {
+      const client = new Client({ protocol: "json", ...options });
+      const send = <C extends CommandName>(
+        args: CommandTuple<C>,
+        options?: CommandOptions,
+      ) =>
+        new Promise<CommandResponse<C>>((resolve, reject) => {
+          client.command(
+            args,
+            (error, resp) => error ? reject(error) : resolve(resp!),
+            options,
+          );
+        });
+      return { client, send };
+    };
+    const sent = (name: string) =>
+      server.commands.filter(([cmd]) => cmd == name).length;
+
+    let { client, send } = connect();
+    await send(["watch-project", "/repo"]);
+
+    // A queued command is never sent
+    server.stall("clock");
+    const first = send(["clock", "/repo"]);
+    const controller = new AbortController();
+    const second = send(["clock", "/repo"], { signal: controller.signal });
+    await until(() => sent("clock") == 1);
+    controller.abort();
+    await assertRejects(() => second, CommandAbortedError);
+    server.resume();
+    assertEquals((await first).clock, server.clock);
+    assertEquals(sent("clock"), 1);
+
+    // The response to an aborted command in flight is discarded when it
+    // arrives, and what was queued behind it carries on over the same
+    // connection
+    let ended = false;
+    client.on("end", () => ended = true);
+    server.stall("clock");
+    const inFlight = new AbortController();
+    const aborted = send(["clock", "/repo"], { signal: inFlight.signal });
+    const queued = send(["watch-list"]);
+    await until(() => sent("clock") == 2);
+    inFlight.abort();
+    await assertRejects(() => aborted, CommandAbortedError);
+    server.resume();
+    assertEquals((await queued).roots, ["/repo"]);
+
+    // As is the response to one that timed out
+    server.stall("clock");
+    await assertRejects(
+      () => send(["clock", "/repo"], { timeout: 50 }),
+      CommandTimeoutError,
+    );
+    const next = send(["watch-list"]);
+    server.resume();
+    assertEquals((await next).roots, ["/repo"]);
+    assertEquals(ended, false);
+    client.end();
+
+    // When we'll reconnect, the connection is reset instead, and what
+    // was queued is sent once reconnected
+    ({ client, send } = connect({ reconnect: { initialDelay: 10 } }));
+    await send(["watch-project", "/repo"]);
+    const reconnected = new Promise((resolve) =>
+      client.once("reconnect", resolve)
+    );
+    server.stall("clock");
+    const timedOut = send(["clock", "/repo"], { timeout: 50 });
+    const behind = send(["watch-list"]);
+    await assertRejects(() => timedOut, CommandTimeoutError);
+    await reconnected;
+    server.resume();
+    assertEquals((await behind).roots, ["/repo"]);
+    client.end();
+  });
+});
+
+Deno.test("reconnecting restores watches and subscriptions", async () => {
+  await withFakeServer(async (server) => {
+    server.addRoot("/repo");
+    const watchman = new Watchman({ reconnect: { initialDelay: 10 } });
+    const project = await watchman.watchProject("/repo");
+    const updates: string[][] = [];
+    await project.subscribe<{ root: string; files: string[] }>(
+      { fields: ["name"] },
+      ({ files }) => updates.push(files),
+    );
+    server.writeFile("/repo/a.ts");
+    await until(() => updates.length == 1);
+
+    const reconnected = new Promise((resolve) =>
+      watchman.once("reconnect", resolve)
+    );
+    const resubscribed = new Promise<{ is_fresh_instance: boolean }>(
+      (resolve) => watchman.once("resubscribed", resolve),
+    );
+    server.disconnect();
+    // Changes made while we were away come with the restored subscription
+    server.writeFile("/repo/b.ts");
+    await reconnected;
+    assertEquals((await resubscribed).is_fresh_instance, false);
+    const sent = (name: string) =>
+      server.commands.filter(([cmd]) => cmd == name).length;
+    assertEquals(sent("watch-project"), 2);
+    assertEquals(sent("subscribe"), 2);
+
+    server.writeFile("/repo/c.ts");
+    await until(() => updates.flat().includes("c.ts"));
+    assertEquals(updates.flat(), ["a.ts", "b.ts", "c.ts"]);
+    watchman.end();
+  });
+});
+
+Deno.test("failing to restore a watch", async () => {
+  await withFakeServer(async (server) => {
+    server.addRoot("/repo");
+    const watchman = new Watchman({ reconnect: { initialDelay: 10 } });
+    const errors: Error[] = [];
+    watchman.on("error", (error) => errors.push(error));
+    const changes = watchman.watch("/repo");
+    const next = changes.next();
+    await until(() => server.commands.some(([cmd]) => cmd == "subscribe"));
+
+    server.refuse("watch-project");
+    server.disconnect();
+    await assertRejects(() => next, Error, "watch-project was refused");
+    assertEquals(errors.map((error) => error.message), [
+      "watch-project was refused",
+    ]);
+    watchman.end();
+  });
+});
+
+Deno.test("states", async () => {
+  await withFakeServer(async (server) => {
+    server.addRoot("/repo");
+    const watchman = new Watchman();
+    const project = await watchman.watchProject("/repo");
+    const updates: { [sub: string]: string[] } = { defer: [], drop: [] };
+    const states: string[] = [];
+    for (const sub of ["defer", "drop"] as const) {
+      await project.subscribe<{ root: string; files: string[] }>(
+        { fields: ["name"], [sub]: ["build"] },
+        ({ files }) => updates[sub].push(...files),
+        {
+          onState: ({ type, state, metadata, abandoned }) =>
+            states.push(
+              `${sub} ${type} ${state} ${JSON.stringify(metadata)}` +
+                (abandoned ? " abandoned" : ""),
+            ),
+        },
+      );
+    }
+
+    await project.withState("build", async () => {
+      server.writeFile("/repo/a.ts");
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      assertEquals(updates, { defer: [], drop: [] });
+    }, { step: 1 });
+    server.writeFile("/repo/b.ts");
+    await until(() => updates.drop.length == 1);
+    await until(() => updates.defer.length == 2);
+    assertEquals(updates, { defer: ["a.ts", "b.ts"], drop: ["b.ts"] });
+    assertEquals(states, [
+      'defer state-enter build {"step":1}',
+      'drop state-enter build {"step":1}',
+      'defer state-leave build {"step":1}',
+      'drop state-leave build {"step":1}',
+    ]);
+
+    // The state is left even when fn fails
+    await assertRejects(
+      () =>
+        project.withState("build", () => {
+          throw new Error("the build failed");
+        }),
+      Error,
+      "the build failed",
+    );
+    assertEquals(server.commands.slice(-1), [
+      ["state-leave", "/repo", { name: "build" }],
+    ]);
+
+    // A state is left for a client that goes away without leaving it
+    states.length = 0;
+    const client = new Client();
+    await new Promise((resolve, reject) =>
+      client.command(
+        ["state-enter", "/repo", "lint"],
+        (error, resp) => error ? reject(error) : resolve(resp),
+      )
+    );
+    client.end();
+    await until(() => states.length == 4);
+    assertEquals(states.slice(2), [
+      "defer state-leave lint undefined abandoned",
+      "drop state-leave lint undefined abandoned",
+    ]);
+    watchman.end();
+  });
+});
+
+Deno.test("Watchman.watch", async () => {
+  await withFakeServer(async (server) => {
+    server.addRoot("/repo");
+    const watchman = new Watchman();
+    let changes = watchman.watch<{ root: string; files: string[] }>(
+      "/repo",
+      { fields: ["name"] },
+    );
+    const subscribed = () =>
+      server.commands.filter(([cmd]) => cmd == "subscribe").length;
+    await until(() => subscribed() == 1);
+    server.writeFile("/repo/a.ts");
+    server.writeFile("/repo/b.ts");
+    const seen: string[] = [];
+    for await (const { files } of changes) {
+      seen.push(...files);
+      if (seen.length == 2) {
+        break;
+      }
+    }
+    assertEquals(seen, ["a.ts", "b.ts"]);
+    const [, root, name] = server.commands.find(([cmd]) => cmd == "subscribe")!;
+    assertEquals(server.commands.slice(-1), [["unsubscribe", root, name]]);
+
+    // Losing the server ends the loop
+    changes = watchman.watch("/repo", { fields: ["name"] });
+    await until(() => subscribed() == 2);
+    server.disconnect();
+    await assertRejects(
+      () => changes.next(),
+      Error,
+      "The watchman connection was closed",
+    );
+    watchman.end();
+  });
+
+  // Ending the Watchman finishes the loops, leaving others' listeners
+  await withFakeServer(async (server) => {
+    server.addRoot("/repo");
+    const watchman = new Watchman();
+    let ended = false;
+    watchman.client.on("end", () => ended = true);
+    const changes = watchman.watch("/repo");
+    const logs = watchman.logs("debug");
+    const nextChange = changes.next();
+    const nextLog = logs.next();
+    await until(() =>
+      server.commands.some(([cmd]) => cmd == "subscribe") &&
+      server.commands.some(([cmd]) => cmd == "log-level")
+    );
+    watchman.end();
+    assertEquals(await nextChange, { value: undefined, done: true });
+    assertEquals(await nextLog, { value: undefined, done: true });
+    await until(() => ended);
+  });
+});
+
+Deno.test("several projects on one connection", async () => {
+  await withFakeServer(async (server) => {
+    server.addRoot("/a");
+    server.addRoot("/b");
+    const watchman = new Watchman();
+    const x = await watchman.watchProject("/a/x");
+    const b = await watchman.watchProject("/b");
+    const y = await watchman.watchProject("/a/y");
+    assertEquals([x.watch, b.watch, y.watch], ["/a", "/b", "/a"]);
+
+    const updates: { [root: string]: string[] } = { x: [], b: [] };
+    for (const [key, project] of [["x", x], ["b", b]] as const) {
+      await project.subscribe<{ root: string; files: string[] }>(
+        { fields: ["name"] },
+        ({ files }) => updates[key].push(...files),
+      );
+    }
+    server.writeFile("/a/x/1.ts");
+    server.writeFile("/b/2.ts");
+    await until(() => updates.x.length == 1 && updates.b.length == 1);
+    assertEquals(updates, { x: ["x/1.ts"], b: ["2.ts"] });
+
+    // Unwatching one root leaves the other alone
+    await b.unwatch();
+    server.writeFile("/a/x/3.ts");
+    server.writeFile("/b/4.ts");
+    await until(() => updates.x.length == 2);
+    assertEquals(updates, { x: ["x/1.ts", "x/3.ts"], b: ["2.ts"] });
+
+    // As does unwatching a project that shares its watch with another
+    await y.unwatch();
+    const deleted = server.commands.filter(([cmd]) => cmd == "watch-del");
+    assertEquals(deleted, [["watch-del", "/b"]]);
+    assertEquals((await watchman.command("watch-list")).roots, ["/a"]);
+    assertEquals(watchman.projects, [x]);
+
+    // y was the current project, so there's none until the next watch
+    await assertRejects(
+      () => watchman.query(),
+      Error,
+      "watchProject must be called first",
+    );
+    await watchman.watchProject("/a/x");
+    assertEquals(
+      (await watchman.query({ fields: ["name"] })).files.map(({ name }) =>
+        name
+      ),
+      ["1.ts", "3.ts"],
+    );
+    watchman.end();
+  });
+});
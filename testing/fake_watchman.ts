@@ -0,0 +1,495 @@
+// deno-lint-ignore-file camelcase
+/**
+ * An in-process stand-in for the watchman server, so that code built on
+ * Client and Watchman can be tested on machines without watchman.
+ *
+ * It listens on a temporary unix socket, speaks BSER or JSON, and answers
+ * `version`, `watch-project`, `clock`, `query`, `subscribe` and
+ * `unsubscribe` from an in-memory file tree that the test scripts.
+ * Changes to the tree are pushed to matching subscriptions, and held
+ * back or dropped while the states they `defer` or `drop` are asserted
+ * with `state-enter`.  Triggers
+ * can be defined and listed, but are never run.  Messages passed to
+ * `log` are sent to the clients that asked for them with `log-level`.
+ *
+ * ```ts
+ * const server = await FakeWatchman.start();
+ * server.addRoot("/repo");
+ * server.writeFile("/repo/src/a.ts");
+ * Deno.env.set("WATCHMAN_SOCK", server.sockname);
+ * ```
+ */
+import { iter } from "https://deno.land/std@0.108.0/io/util.ts";
+import * as bser from "../bser/mod.ts";
+import { capabilityVersions } from "../capabilities.ts";
+import { BserCodec, Codec, JsonCodec, JsonDecoder } from "../codec.ts";
+import type { TriggerSpec } from "../commands.ts";
+import type { FileType } from "../expression.ts";
+import { FileTree } from "../tree.ts";
+
+export type FakeWatchmanOptions = {
+  // The version reported to clients
+  version?: string;
+  // The capabilities reported to clients; `bser-v2` is what lets the
+  // Client switch to BSER v2
+  capabilities?: string[];
+};
+
+export type FakeFileOptions = {
+  type?: FileType;
+  size?: number;
+  mode?: number;
+  // Seconds since the epoch; defaults to now
+  mtime?: number;
+  symlink_target?: string;
+};
+
+const defaultCapabilities = [...Object.keys(capabilityVersions), "bser-v2"];
+
+type Connection = {
+  conn: Deno.Conn;
+  // The encoding of the commands, which we answer in kind
+  codec: Codec;
+  // Writes are chained so that PDUs can't interleave
+  writing: Promise<void>;
+  logLevel: "debug" | "error" | "off";
+  subscriptions: { root: string; name: string; cancel: () => void }[];
+  // The states that the client has entered and not yet left
+  states: { root: string; name: string }[];
+};
+
+async function writeAll(conn: Deno.Conn, buf: Uint8Array) {
+  let written = 0;
+  while (written < buf.length) {
+    written += await conn.write(buf.subarray(written));
+  }
+}
+
+function stripSlash(path: string) {
+  return path.length > 1 ? path.replace(/\/+$/, "") : path;
+}
+
+export class FakeWatchman {
+  // The path of the socket; point WATCHMAN_SOCK here
+  readonly sockname: string;
+  version: string;
+  capabilities: string[];
+  // Every command that has been received, in order
+  commands: unknown[][] = [];
+
+  #dir: string;
+  #listener: Deno.Listener;
+  #serving: Promise<void>;
+  #connections = new Set<Connection>();
+  #handlers = new Set<Promise<void>>();
+
+  #tree = new FileTree();
+  #watched = new Set<string>();
+  #triggers = new Map<string, Map<string, TriggerSpec>>();
+  // The commands whose responses are held back, and the responses
+  #stalled = new Set<string>();
+  #held: (() => void)[] = [];
+  // The commands that fail, and why
+  #refused = new Map<string, string>();
+
+  private constructor(
+    dir: string,
+    listener: Deno.Listener,
+    options: FakeWatchmanOptions,
+  ) {
+    this.#dir = dir;
+    this.#listener = listener;
+    this.sockname = `${dir}/sock`;
+    this.version = options.version || "2022.01.01.00";
+    this.capabilities = options.capabilities || defaultCapabilities;
+    this.#serving = this.#accept();
+  }
+
+  static async start(options: FakeWatchmanOptions = {}) {
+    const dir = await Deno.makeTempDir({ prefix: "fake-watchman-" });
+    const listener = Deno.listen({ path: `${dir}/sock`, transport: "unix" });
+    return new FakeWatchman(dir, listener, options);
+  }
+
+  // The clock as it stands now
+  get clock() {
+    return this.#tree.clock;
+  }
+
+  /**
+   * Add a directory that watch-project will treat as a project root,
+   * so that watching any directory beneath it watches this one
+   */
+  addRoot(root: string) {
+    this.#tree.addRoot(stripSlash(root));
+  }
+
+  #locate(path: string) {
+    path = stripSlash(path);
+    const root = this.#tree.rootOf(path);
+    if (!root || root == path) {
+      throw new Error(`${path} is not beneath a root; call addRoot first`);
+    }
+    return { root, name: path.slice(root == "/" ? 1 : root.length + 1) };
+  }
+
+  #put(path: string, options: FakeFileOptions) {
+    const { root, name } = this.#locate(path);
+    const now = Math.floor(Date.now() / 1000);
+    this.#tree.put(root, name, {
+      type: options.type || "f",
+      size: options.size || 0,
+      mode: options.mode || (options.type == "d" ? 0o40755 : 0o100644),
+      mtime: options.mtime || now,
+      ctime: now,
+      symlink_target: options.symlink_target,
+    });
+  }
+
+  // Create or modify a file
+  writeFile(path: string, options: FakeFileOptions = {}) {
+    this.#put(path, options);
+  }
+
+  mkdir(path: string, options: Omit<FakeFileOptions, "type"> = {}) {
+    this.#put(path, { ...options, type: "d" });
+  }
+
+  /**
+   * Set the merge base of the working copy with a revision, for queries
+   * with an SCM aware `since`.  Changes made after this count as local
+   * changes relative to it.
+   */
+  setMergebase(mergebaseWith: string, mergebase: string) {
+    this.#tree.setMergebase(mergebaseWith, mergebase);
+  }
+
+  // Delete a file, or a directory along with everything beneath it
+  remove(path: string) {
+    const { root, name } = this.#locate(path);
+    this.#tree.remove(root, name);
+  }
+
+  /**
+   * Hold back the responses to these commands, like a busy server
+   * would, until resume is called
+   */
+  stall(...names: string[]) {
+    names.forEach((name) => this.#stalled.add(name));
+  }
+
+  // Send the responses that were held back
+  resume() {
+    this.#stalled.clear();
+    this.#held.splice(0).forEach((send) => send());
+  }
+
+  // Answer these commands with an error from now on
+  refuse(name: string, error = `${name} was refused`) {
+    this.#refused.set(name, error);
+  }
+
+  // Send a log message to the clients whose log level covers it
+  log(level: "debug" | "error", message: string) {
+    const time = new Date().toISOString().replace(/\.(\d+)Z$/, ",$1");
+    for (const connection of this.#connections) {
+      if (
+        connection.logLevel == "debug" ||
+        (connection.logLevel == "error" && level == "error")
+      ) {
+        this.#send(connection, {
+          version: this.version,
+          log: `${time}: [fake] ${message}\n`,
+          unilateral: true,
+        });
+      }
+    }
+  }
+
+  // Cancel the connection's subscriptions that match
+  #unsubscribe(
+    connection: Connection,
+    match: (sub: { root: string; name: string }) => boolean,
+  ) {
+    let deleted = false;
+    connection.subscriptions = connection.subscriptions.filter((sub) => {
+      if (!match(sub)) return true;
+      sub.cancel();
+      deleted = true;
+      return false;
+    });
+    return deleted;
+  }
+
+  #watchedRoot(root: unknown) {
+    if (typeof root != "string" || !this.#watched.has(stripSlash(root))) {
+      throw new Error(
+        `unable to resolve root ${root}: directory ${root} is not watched`,
+      );
+    }
+    return stripSlash(root);
+  }
+
+  // deno-lint-ignore no-explicit-any
+  #dispatch(connection: Connection, cmd: any[]): any {
+    switch (cmd[0]) {
+      case "version": {
+        const { optional = [], required = [] } = cmd[1] || {};
+        if (!cmd[1]) {
+          return {};
+        }
+        const capabilities: { [name: string]: boolean } = {};
+        for (const name of [...optional, ...required]) {
+          capabilities[name] = this.capabilities.includes(name);
+        }
+        const missing = required.find((name: string) => !capabilities[name]);
+        if (missing) {
+          return {
+            capabilities,
+            error:
+              `client required capability \`${missing}\` is not supported by this server`,
+          };
+        }
+        return { capabilities };
+      }
+      case "log-level": {
+        if (!["debug", "error", "off"].includes(cmd[1])) {
+          throw new Error(`invalid log level ${cmd[1]}`);
+        }
+        connection.logLevel = cmd[1];
+        return { log_level: cmd[1] };
+      }
+      case "log":
+        // Let the response go out before the log PDU
+        queueMicrotask(() => this.log(cmd[1], cmd[2]));
+        return { logged: true };
+      case "get-sockname":
+        return { sockname: this.sockname };
+      case "watch-project": {
+        if (!String(cmd[1]).startsWith("/")) {
+          throw new Error(
+            `unable to resolve root ${cmd[1]}: path must be absolute`,
+          );
+        }
+        const path = stripSlash(cmd[1]);
+        let root = this.#tree.rootOf(path);
+        if (!root) {
+          this.addRoot(path);
+          root = path;
+        }
+        this.#watched.add(root);
+        const relative_path = path.slice(root.length + 1);
+        return relative_path
+          ? { watch: root, watcher: "fake", relative_path }
+          : { watch: root, watcher: "fake" };
+      }
+      case "watch-list":
+        return { roots: [...this.#watched] };
+      case "watch-del": {
+        const root = this.#watchedRoot(cmd[1]);
+        this.#watched.delete(root);
+        this.#triggers.delete(root);
+        for (const other of this.#connections) {
+          this.#unsubscribe(other, (sub) => sub.root == root);
+        }
+        return { "watch-del": true, root };
+      }
+      case "trigger": {
+        const root = this.#watchedRoot(cmd[1]);
+        const spec: TriggerSpec = cmd[2];
+        if (!spec || !spec.name || !spec.command) {
+          throw new Error("invalid trigger definition");
+        }
+        const triggers = this.#triggers.get(root) || new Map();
+        this.#triggers.set(root, triggers);
+        const previous = triggers.get(spec.name);
+        triggers.set(spec.name, spec);
+        return {
+          triggerid: spec.name,
+          disposition: !previous
+            ? "created"
+            : JSON.stringify(previous) == JSON.stringify(spec)
+            ? "already_defined"
+            : "replaced",
+        };
+      }
+      case "trigger-list": {
+        const triggers = this.#triggers.get(this.#watchedRoot(cmd[1]));
+        return { triggers: triggers ? [...triggers.values()] : [] };
+      }
+      case "trigger-del": {
+        const triggers = this.#triggers.get(this.#watchedRoot(cmd[1]));
+        return {
+          deleted: !!triggers && triggers.delete(cmd[2]),
+          trigger: cmd[2],
+        };
+      }
+      case "clock":
+        this.#watchedRoot(cmd[1]);
+        return { clock: this.clock };
+      case "query":
+        return this.#tree.query(this.#watchedRoot(cmd[1]), cmd[2] || {});
+      case "subscribe": {
+        const root = this.#watchedRoot(cmd[1]);
+        const name = cmd[2];
+        this.#unsubscribe(
+          connection,
+          (sub) => sub.root == root && sub.name == name,
+        );
+        const cancel = this.#tree.subscribe(
+          root,
+          name,
+          cmd[3] || {},
+          (resp) => this.#send(connection, { version: this.version, ...resp }),
+        );
+        connection.subscriptions.push({ root, name, cancel });
+        return { subscribe: name, clock: this.clock };
+      }
+      case "unsubscribe": {
+        const root = this.#watchedRoot(cmd[1]);
+        return {
+          unsubscribe: cmd[2],
+          deleted: this.#unsubscribe(
+            connection,
+            (sub) => sub.root == root && sub.name == cmd[2],
+          ),
+        };
+      }
+      case "state-enter":
+      case "state-leave": {
+        const root = this.#watchedRoot(cmd[1]);
+        const { name, metadata } = typeof cmd[2] == "string"
+          ? { name: cmd[2], metadata: undefined }
+          : cmd[2] || {};
+        if (typeof name != "string") {
+          throw new Error(`invalid state name ${name}`);
+        }
+        if (cmd[0] == "state-enter") {
+          this.#tree.stateEnter(root, name, metadata);
+          connection.states.push({ root, name });
+        } else {
+          this.#tree.stateLeave(root, name, metadata);
+          connection.states = connection.states.filter((state) =>
+            state.root != root || state.name != name
+          );
+        }
+        return { root, [cmd[0]]: name, clock: this.clock };
+      }
+    }
+    throw new Error(`unknown command ${cmd[0]}`);
+  }
+
+  #send(connection: Connection, value: unknown) {
+    const buf = connection.codec.encode(value);
+    connection.writing = connection.writing
+      .then(() => writeAll(connection.conn, buf))
+      .catch(() => {
+        // The client has gone away
+      });
+  }
+
+  // deno-lint-ignore no-explicit-any
+  #handle(connection: Connection, cmd: any) {
+    this.commands.push(cmd);
+    let resp;
+    try {
+      if (this.#refused.has(cmd[0])) {
+        throw new Error(this.#refused.get(cmd[0]));
+      }
+      resp = this.#dispatch(connection, cmd);
+    } catch (e) {
+      resp = { error: (e as Error).message };
+    }
+    const send = () =>
+      this.#send(connection, { version: this.version, ...resp });
+    if (this.#stalled.has(cmd[0])) {
+      this.#held.push(send);
+    } else {
+      send();
+    }
+  }
+
+  async #accept() {
+    try {
+      for await (const conn of this.#listener) {
+        const handler = this.#serve(conn);
+        this.#handlers.add(handler);
+        handler.then(() => this.#handlers.delete(handler));
+      }
+    } catch (_) {
+      // The listener was closed
+    }
+  }
+
+  async #serve(conn: Deno.Conn) {
+    const bserCodec = new BserCodec();
+    const connection: Connection = {
+      conn,
+      codec: bserCodec,
+      writing: Promise.resolve(),
+      logLevel: "off",
+      subscriptions: [],
+      states: [],
+    };
+    this.#connections.add(connection);
+    const bunser = new bser.BunserBuf();
+    let json: JsonDecoder | undefined;
+    try {
+      for await (const buf of iter(conn)) {
+        // Like the real server, tell JSON apart from BSER by its first byte
+        if (!json && bunser.buf.readAvail() == 0 && buf[0] !== 0) {
+          connection.codec = new JsonCodec();
+          json = new JsonDecoder();
+          json.on("value", (cmd) => this.#handle(connection, cmd));
+          json.on("error", () => conn.close());
+        }
+        if (json) {
+          json.append(buf);
+          continue;
+        }
+        let cmd = bunser.append(buf, true);
+        while (cmd !== undefined) {
+          bserCodec.version = bunser.pduVersion!;
+          this.#handle(connection, cmd);
+          cmd = bunser.process(true);
+        }
+      }
+    } catch (_) {
+      // Either side closed the connection, or the client sent garbage
+    } finally {
+      await connection.writing;
+      this.#unsubscribe(connection, () => true);
+      // Like the server, leave the states that the client abandoned
+      for (const { root, name } of connection.states) {
+        this.#tree.stateLeave(root, name, undefined, true);
+      }
+      this.#connections.delete(connection);
+      try {
+        conn.close();
+      } catch (_) {
+        // Already closed by close()
+      }
+    }
+  }
+
+  // Drop the connections to the clients, along with their
+  // subscriptions, as though the server had restarted
+  disconnect() {
+    for (const { conn } of this.#connections) {
+      try {
+        conn.close();
+      } catch (_) {
+        // Already closed
+      }
+    }
+  }
+
+  // Disconnect any clients and stop listening
+  async close() {
+    this.#listener.close();
+    this.disconnect();
+    await this.#serving;
+    await Promise.all(this.#handlers);
+    await Deno.remove(this.#dir, { recursive: true });
+  }
+}
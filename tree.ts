@@ -0,0 +1,380 @@
+// deno-lint-ignore-file camelcase
+/**
+ * An in-memory record of the files under some roots and when each of
+ * them changed, which answers queries and subscriptions the way that
+ * the server would.  This is what stands in for the server in the fake
+ * used by the tests and in the Deno.watchFs backend.
+ */
+import type {
+  FieldName,
+  FileResult,
+  QueryResponse,
+  QuerySpec,
+  ScmClock,
+  Since,
+  StateResponse,
+  SubscribeSpec,
+  SubscriptionResponse,
+} from "./commands.ts";
+import { evaluate, LocalFile } from "./evaluate.ts";
+
+// What we know about a file, apart from its name and when it changed
+export type FileStat = Omit<LocalFile, "name" | "exists"> & {
+  mode: number;
+  symlink_target?: string;
+  // The mtime in milliseconds, where it's known to better than a second
+  mtime_ms?: number;
+};
+
+type TreeFile = LocalFile & FileStat & {
+  // The ticks at which the file was created and last changed
+  cclock: number;
+  oclock: number;
+};
+
+type Subscription = {
+  root: string;
+  name: string;
+  spec: SubscribeSpec;
+  // The clock that the last update brought the subscriber up to
+  clock?: Since;
+  deliver: (resp: SubscriptionResponse | StateResponse) => void;
+};
+
+// The fields that the server returns when none are requested
+const defaultFields: FieldName[] = ["name", "exists", "new", "size", "mode"];
+
+export class FileTree {
+  #instance = `${Date.now()}:${Deno.pid}`;
+  #tick = 1;
+  // The files under each root, keyed by the path relative to it
+  #roots = new Map<string, Map<string, TreeFile>>();
+  // The merge base with each revision, and the tick it was set at
+  #mergebases = new Map<string, { mergebase: string; tick: number }>();
+  #subscriptions = new Set<Subscription>();
+  #notifying = false;
+  // The states asserted on each root
+  #states = new Map<string, Set<string>>();
+
+  // The clock as it stands now
+  get clock() {
+    return this.#clockAt(this.#tick);
+  }
+
+  #clockAt(tick: number) {
+    return `c:${this.#instance}:${tick}`;
+  }
+
+  // The tick for a clock from this instance, or undefined for clocks
+  // that we didn't hand out
+  #parseClock(clock: string) {
+    const prefix = `c:${this.#instance}:`;
+    if (clock.startsWith(prefix)) {
+      return parseInt(clock.slice(prefix.length));
+    }
+  }
+
+  get roots() {
+    return [...this.#roots.keys()];
+  }
+
+  addRoot(root: string) {
+    if (!this.#roots.has(root)) {
+      this.#roots.set(root, new Map());
+    }
+  }
+
+  // Forget the root, along with its files and subscriptions
+  deleteRoot(root: string) {
+    this.#roots.delete(root);
+    this.#states.delete(root);
+    for (const sub of this.#subscriptions) {
+      if (sub.root == root) {
+        this.#subscriptions.delete(sub);
+      }
+    }
+  }
+
+  // The root that contains path, if any
+  rootOf(path: string) {
+    for (const root of this.#roots.keys()) {
+      if (path == root || path.startsWith(root == "/" ? root : root + "/")) {
+        return root;
+      }
+    }
+  }
+
+  #files(root: string) {
+    const files = this.#roots.get(root);
+    if (!files) {
+      throw new Error(`${root} is not a root`);
+    }
+    return files;
+  }
+
+  // What we know about the file, if anything
+  get(root: string, name: string): Readonly<LocalFile & FileStat> | undefined {
+    return this.#files(root).get(name);
+  }
+
+  // Record that a file was created or changed
+  put(root: string, name: string, stat: FileStat) {
+    const files = this.#files(root);
+    const tick = ++this.#tick;
+    const previous = files.get(name);
+    files.set(name, {
+      ...stat,
+      name,
+      exists: true,
+      cclock: previous && previous.exists ? previous.cclock : tick,
+      oclock: tick,
+    });
+    this.#changed();
+  }
+
+  // Record that a file, or a directory and everything beneath it, is gone
+  remove(root: string, name: string) {
+    const tick = ++this.#tick;
+    for (const file of this.#files(root).values()) {
+      if (
+        file.exists && (file.name == name || file.name.startsWith(name + "/"))
+      ) {
+        file.exists = false;
+        file.oclock = tick;
+      }
+    }
+    this.#changed();
+  }
+
+  /**
+   * Set the merge base of the working copy with a revision, for queries
+   * with an SCM aware `since`.  Changes made after this count as local
+   * changes relative to it.
+   */
+  setMergebase(mergebaseWith: string, mergebase: string) {
+    this.#mergebases.set(mergebaseWith, { mergebase, tick: this.#tick });
+    this.#changed();
+  }
+
+  /**
+   * Deliver updates to the subscription whenever files matching it
+   * change, starting with the initial results.
+   * Returns a function that cancels the subscription.
+   */
+  subscribe(
+    root: string,
+    name: string,
+    spec: SubscribeSpec,
+    deliver: (resp: SubscriptionResponse | StateResponse) => void,
+  ) {
+    // Check the query before we accept the subscription
+    this.query(root, spec);
+    const sub: Subscription = { root, name, spec, deliver };
+    this.#subscriptions.add(sub);
+    // Let the caller respond to the subscribe command first
+    queueMicrotask(() => {
+      if (sub.clock === undefined) this.#update(sub);
+    });
+    return () => this.#subscriptions.delete(sub);
+  }
+
+  /**
+   * Assert the state on the root, telling its subscribers.  Updates to
+   * the subscriptions that defer on it are held back until it is left,
+   * and those that drop on it miss the changes made in the meantime.
+   */
+  stateEnter(root: string, name: string, metadata?: unknown) {
+    this.#files(root);
+    const states = this.#states.get(root) || new Set();
+    if (states.has(name)) {
+      throw new Error(`state ${name} is already asserted`);
+    }
+    // The changes made before now aren't held back by the state
+    this.#subscribersTo(root).forEach((sub) => this.#update(sub));
+    states.add(name);
+    this.#states.set(root, states);
+    this.#notifyState(root, { "state-enter": name, metadata });
+  }
+
+  /**
+   * Leave the state, sending the updates that it held back.  It's
+   * abandoned when the client that entered it went away.
+   */
+  stateLeave(
+    root: string,
+    name: string,
+    metadata?: unknown,
+    abandoned?: boolean,
+  ) {
+    const states = this.#states.get(root);
+    if (!states || !states.has(name)) {
+      throw new Error(`state ${name} is not asserted`);
+    }
+    for (const sub of this.#subscribersTo(root)) {
+      if (sub.clock !== undefined && sub.spec.drop?.includes(name)) {
+        sub.clock = this.clock;
+      }
+    }
+    states.delete(name);
+    this.#notifyState(root, { "state-leave": name, metadata, abandoned });
+    this.#subscribersTo(root).forEach((sub) => this.#update(sub));
+  }
+
+  #subscribersTo(root: string) {
+    return [...this.#subscriptions].filter((sub) => sub.root == root);
+  }
+
+  #notifyState(
+    root: string,
+    state: Omit<StateResponse, "subscription" | "root" | "clock">,
+  ) {
+    for (const sub of this.#subscribersTo(root)) {
+      sub.deliver({
+        subscription: sub.name,
+        root,
+        clock: this.clock,
+        unilateral: true,
+        ...state,
+      });
+    }
+  }
+
+  // Send updates once the current batch of changes has been made
+  #changed() {
+    if (this.#notifying) {
+      return;
+    }
+    this.#notifying = true;
+    queueMicrotask(() => {
+      this.#notifying = false;
+      for (const sub of this.#subscriptions) {
+        this.#update(sub);
+      }
+    });
+  }
+
+  // Send the subscriber whatever changed since its last update, or
+  // since the clock it subscribed with for the initial results
+  #update(sub: Subscription) {
+    if (!this.#subscriptions.has(sub)) {
+      return;
+    }
+    const states = this.#states.get(sub.root);
+    const asserted = (names?: string[]) =>
+      !!states && !!names && names.some((name) => states.has(name));
+    if (sub.clock !== undefined && asserted(sub.spec.drop)) {
+      sub.clock = this.clock;
+      return;
+    }
+    if (sub.clock !== undefined && asserted(sub.spec.defer)) {
+      return;
+    }
+    const resp = this.query(sub.root, {
+      ...sub.spec,
+      since: sub.clock === undefined ? sub.spec.since : sub.clock,
+    });
+    sub.clock = resp.clock;
+    if (resp.files.length || resp.is_fresh_instance) {
+      sub.deliver({
+        subscription: sub.name,
+        root: sub.root,
+        unilateral: true,
+        ...resp,
+      });
+    }
+  }
+
+  query(root: string, spec: QuerySpec): QueryResponse {
+    const tree = [...this.#files(root).values()];
+    if (spec.glob || spec.path) {
+      throw new Error("only the suffix generator is supported");
+    }
+    let since = spec.since;
+    let sinceTick = 0;
+    let sinceTime: number | undefined;
+    let fresh = true;
+    let scm: ScmClock["scm"] | undefined;
+    // For a fresh instance relative to a merge base, the tick that the
+    // local changes started at
+    let scmTick: number | undefined;
+    if (since && typeof since == "object") {
+      const mergebaseWith = since.scm["mergebase-with"];
+      const found = this.#mergebases.get(mergebaseWith);
+      if (!found) {
+        throw new Error(`unable to find the merge base with ${mergebaseWith}`);
+      }
+      scm = { "mergebase-with": mergebaseWith, mergebase: found.mergebase };
+      // When the merge base moves we start over, relative to the new one
+      if (since.scm.mergebase == found.mergebase && since.clock) {
+        since = since.clock;
+      } else {
+        since = undefined;
+        scmTick = found.tick;
+      }
+    }
+    if (typeof since === "number") {
+      sinceTime = since;
+      fresh = false;
+    } else if (since) {
+      const tick = this.#parseClock(since);
+      if (tick !== undefined) {
+        sinceTick = tick;
+        fresh = false;
+      }
+    }
+
+    const prefix = spec.relative_root ? spec.relative_root + "/" : "";
+    const fields = spec.fields || defaultFields;
+    const files: FileResult[] = [];
+    tree.sort((a, b) => a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
+    for (const file of tree) {
+      if (!file.name.startsWith(prefix)) continue;
+      if (scmTick !== undefined) {
+        // Deleted files are local changes too
+        if (file.oclock <= scmTick) continue;
+      } else if (fresh ? !file.exists : file.oclock <= sinceTick) continue;
+      if (sinceTime !== undefined && file.mtime <= sinceTime) continue;
+
+      const local = { ...file, name: file.name.slice(prefix.length) };
+      if (spec.suffix && !evaluate(["suffix", spec.suffix], local)) continue;
+      if (spec.expression && !evaluate(spec.expression, local)) continue;
+      files.push(
+        this.#render(local, fields, scmTick ?? (fresh ? Infinity : sinceTick)),
+      );
+    }
+
+    return {
+      clock: scm ? { clock: this.clock, scm } : this.clock,
+      is_fresh_instance: fresh,
+      files: fresh && spec.empty_on_fresh_instance ? [] : files,
+    };
+  }
+
+  #render(file: TreeFile, fields: FieldName[], sinceTick: number) {
+    if (fields.length == 1 && fields[0] == "name") {
+      return file.name;
+    }
+    const mtime_ms = file.mtime_ms ?? file.mtime * 1000;
+    const values: { [field: string]: unknown } = {
+      ...file,
+      new: file.cclock > sinceTick,
+      cclock: this.#clockAt(file.cclock),
+      oclock: this.#clockAt(file.oclock),
+      mtime_ms,
+      mtime_us: mtime_ms * 1000,
+      mtime_ns: mtime_ms * 1e6,
+      mtime_f: mtime_ms / 1000,
+      ctime_ms: file.ctime * 1000,
+      ctime_us: file.ctime * 1e6,
+      ctime_ns: file.ctime * 1e9,
+      ctime_f: file.ctime,
+    };
+    const record: { [field: string]: unknown } = {};
+    for (const field of fields) {
+      if (values[field] !== undefined) {
+        record[field] = values[field];
+      }
+    }
+    return record;
+  }
+}
@@ -0,0 +1,148 @@
+// deno-lint-ignore-file camelcase
+/**
+ * Helpers for defining triggers, and for the scripts that they run.
+ * See https://facebook.github.io/watchman/docs/cmd/trigger.html
+ */
+import { iter } from "https://deno.land/std@0.108.0/io/util.ts";
+import * as bser from "./bser/mod.ts";
+import type { FieldName, FileResult, TriggerSpec } from "./commands.ts";
+import type { Expression } from "./expression.ts";
+
+/**
+ * Builds up a trigger definition, eg:
+ *
+ * ```ts
+ * defineTrigger("lint", "deno", "lint")
+ *   .expression(expr.suffix("ts"))
+ *   .appendFiles()
+ *   .stdout("/tmp/lint.log", { append: true })
+ *   .build();
+ * ```
+ */
+export class TriggerBuilder {
+  #spec: TriggerSpec;
+
+  constructor(name: string, command: string[]) {
+    this.#spec = { name, command };
+  }
+
+  // Only run for changes to the files that match
+  expression(expression: Expression) {
+    this.#spec.expression = expression;
+    return this;
+  }
+
+  relativeRoot(path: string) {
+    this.#spec.relative_root = path;
+    return this;
+  }
+
+  // Pass the changed files as arguments, after the command
+  appendFiles(append = true) {
+    this.#spec.append_files = append;
+    return this;
+  }
+
+  /**
+   * What the command receives on stdin: the given fields of each changed
+   * file as a JSON array, one name per line, or nothing at all
+   */
+  stdin(stdin: FieldName[] | "NAME_PER_LINE" | "/dev/null") {
+    this.#spec.stdin = stdin;
+    return this;
+  }
+
+  // Cap the number of files written to stdin
+  maxFilesStdin(max: number) {
+    this.#spec.max_files_stdin = max;
+    return this;
+  }
+
+  // Redirect the output of the command to a file, relative to the root
+  stdout(path: string, options: { append?: boolean } = {}) {
+    this.#spec.stdout = (options.append ? ">>" : ">") + path;
+    return this;
+  }
+
+  stderr(path: string, options: { append?: boolean } = {}) {
+    this.#spec.stderr = (options.append ? ">>" : ">") + path;
+    return this;
+  }
+
+  // Run the command in this directory, relative to the root
+  chdir(path: string) {
+    this.#spec.chdir = path;
+    return this;
+  }
+
+  build(): TriggerSpec {
+    return { ...this.#spec, command: [...this.#spec.command] };
+  }
+}
+
+export function defineTrigger(name: string, ...command: string[]) {
+  return new TriggerBuilder(name, command);
+}
+
+// What watchman tells a trigger command through its environment
+export type TriggerEnvironment = {
+  // The socket of the server that ran the trigger; Client picks this up
+  sockname?: string;
+  // The watched root
+  root: string;
+  // The name of the trigger
+  trigger: string;
+  relativeRoot?: string;
+  // Set when there were more changed files than fit on the command line
+  filesOverflow: boolean;
+};
+
+/**
+ * Read the trigger environment in a script run by a trigger.
+ * Throws if the script wasn't run by watchman.
+ */
+export function triggerEnvironment(): TriggerEnvironment {
+  const root = Deno.env.get("WATCHMAN_ROOT");
+  const trigger = Deno.env.get("WATCHMAN_TRIGGER");
+  if (!root || !trigger) {
+    throw new Error("not running as a watchman trigger");
+  }
+  return {
+    sockname: Deno.env.get("WATCHMAN_SOCK"),
+    root,
+    trigger,
+    relativeRoot: Deno.env.get("WATCHMAN_RELATIVE_ROOT"),
+    filesOverflow: Deno.env.get("WATCHMAN_FILES_OVERFLOW") == "true",
+  };
+}
+
+/**
+ * Decode the changed files that watchman wrote to a trigger's stdin.
+ * Field lists arrive as a JSON or BSER array; with NAME_PER_LINE each
+ * file is just its name.
+ */
+export async function readTriggerFiles(
+  reader: { read(p: Uint8Array): Promise<number | null> } = Deno.stdin,
+): Promise<FileResult[]> {
+  const chunks = [];
+  let length = 0;
+  for await (const chunk of iter(reader)) {
+    chunks.push(chunk.slice());
+    length += chunk.length;
+  }
+  const input = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    input.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  if (input[0] === 0) {
+    return bser.loadFromBuffer(input);
+  }
+  const text = new TextDecoder().decode(input);
+  if (text.trimStart().startsWith("[")) {
+    return JSON.parse(text);
+  }
+  return text.split("\n").filter((name) => name.length);
+}
@@ -0,0 +1,430 @@
+// deno-lint-ignore-file camelcase no-explicit-any
+/**
+ * A stand-in for the watchman server on machines that don't have it,
+ * built on Deno.watchFs and crawling directories.  It answers the
+ * commands that Watchman and Project send, evaluating the expression
+ * terms that evaluate.ts supports.  Triggers and SCM aware queries are
+ * not supported.
+ */
+import {
+  join,
+  relative,
+  resolve,
+  SEP,
+} from "https://deno.land/std@0.108.0/path/mod.ts";
+import {
+  Client,
+  ClientOptions,
+  CommandAbortedError,
+  CommandOptions,
+} from "./client.ts";
+import type { CommandName, CommandResponse, CommandTuple } from "./commands.ts";
+import type { FileType } from "./expression.ts";
+import { FileStat, FileTree } from "./tree.ts";
+
+// Like the server, treat a directory that holds one of these as the
+// root of a project
+const rootFiles = [".git", ".hg", ".svn", ".watchmanconfig"];
+
+// We don't look inside of the version control directories
+const ignoredDirs = [".git", ".hg", ".svn"];
+
+export const watchFsCapabilities = [
+  ...[
+    "clock",
+    "query",
+    "state-enter",
+    "state-leave",
+    "subscribe",
+    "unsubscribe",
+    "version",
+    "watch",
+    "watch-del",
+    "watch-del-all",
+    "watch-list",
+    "watch-project",
+  ].map((name) => `cmd-${name}`),
+  ...[
+    "cclock",
+    "ctime",
+    "ctime_f",
+    "ctime_ms",
+    "ctime_ns",
+    "ctime_us",
+    "exists",
+    "mode",
+    "mtime",
+    "mtime_f",
+    "mtime_ms",
+    "mtime_ns",
+    "mtime_us",
+    "name",
+    "new",
+    "oclock",
+    "size",
+    "symlink_target",
+    "type",
+  ].map((name) => `field-${name}`),
+  // The terms that evaluate.ts supports
+  ...[
+    "allof",
+    "anyof",
+    "dirname",
+    "empty",
+    "exists",
+    "false",
+    "idirname",
+    "imatch",
+    "iname",
+    "ipcre",
+    "match",
+    "name",
+    "not",
+    "pcre",
+    "since",
+    "size",
+    "suffix",
+    "true",
+    "type",
+  ].map((name) => `term-${name}`),
+  "relative_root",
+  "suffix-set",
+  "wildmatch",
+  "wildmatch-multislash",
+];
+
+function isIgnored(name: string) {
+  return name.split("/").some((part) => ignoredDirs.includes(part));
+}
+
+async function exists(path: string) {
+  try {
+    await Deno.lstat(path);
+    return true;
+  } catch (_) {
+    return false;
+  }
+}
+
+async function statFile(path: string): Promise<FileStat> {
+  const info = await Deno.lstat(path);
+  const type: FileType = info.isDirectory
+    ? "d"
+    : info.isSymlink
+    ? "l"
+    : info.isFile
+    ? "f"
+    : "s";
+  const mtime_ms = info.mtime ? info.mtime.getTime() : 0;
+  const mtime = Math.floor(mtime_ms / 1000);
+  return {
+    type,
+    size: info.size,
+    mode: info.mode || 0,
+    mtime,
+    mtime_ms,
+    // Deno doesn't tell us the ctime, so make do with the mtime
+    ctime: mtime,
+    symlink_target: info.isSymlink ? await Deno.readLink(path) : undefined,
+  };
+}
+
+export class WatchFsClient extends Client {
+  #tree = new FileTree();
+  #watchers = new Map<string, Deno.FsWatcher>();
+  // Cancels each subscription, keyed by root and name
+  #subscriptions = new Map<string, () => void>();
+  // Commands run one at a time, as they would on the server
+  #queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options?: ClientOptions) {
+    super(options);
+  }
+
+  override get connected() {
+    return !this.ended;
+  }
+
+  // There's no connection to lose
+  override get willReconnect() {
+    return false;
+  }
+
+  /**
+   * Run the command locally.  A signal can only stop the command before
+   * it starts, and timeouts are ignored, since none of them wait on
+   * anything for long.
+   */
+  override command<C extends CommandName>(
+    args: CommandTuple<C>,
+    done?: (error?: Error | null, resp?: CommandResponse<C>) => any,
+    options?: CommandOptions,
+  ): void;
+  override command(
+    args: any[],
+    done?: (error?: Error | null, resp?: any) => any,
+    options: CommandOptions = {},
+  ) {
+    const cb = done || function () {};
+    this.ended = false;
+    this.#queue = this.#queue.then(async () => {
+      if (options.signal && options.signal.aborted) {
+        cb(new CommandAbortedError(args, options.signal.reason));
+        return;
+      }
+      let resp;
+      try {
+        resp = await this.#dispatch(args);
+      } catch (e) {
+        resp = { error: (e as Error).message };
+      }
+      resp = { version: "watchfs", ...resp };
+      if ("error" in resp) {
+        const error = new Error(resp.error);
+        // @ts-expect-error dynamic prop
+        error.watchmanResponse = resp;
+        cb(error);
+      } else {
+        cb(null, resp);
+      }
+    });
+  }
+
+  #watchedRoot(root: unknown) {
+    if (typeof root != "string" || !this.#watchers.has(root)) {
+      throw new Error(
+        `unable to resolve root ${root}: directory ${root} is not watched`,
+      );
+    }
+    return root;
+  }
+
+  async #dispatch(cmd: any[]): Promise<any> {
+    switch (cmd[0]) {
+      case "version": {
+        if (!cmd[1]) {
+          return {};
+        }
+        const { optional = [], required = [] } = cmd[1];
+        const capabilities: { [name: string]: boolean } = {};
+        for (const name of [...optional, ...required]) {
+          capabilities[name] = watchFsCapabilities.includes(name);
+        }
+        const missing = required.find((name: string) => !capabilities[name]);
+        if (missing) {
+          return {
+            capabilities,
+            error:
+              `client required capability \`${missing}\` is not supported by this server`,
+          };
+        }
+        return { capabilities };
+      }
+      case "watch":
+      case "watch-project": {
+        const path = await Deno.realPath(cmd[1]);
+        let root = path;
+        if (cmd[0] == "watch-project") {
+          root = await this.#projectRoot(path);
+        }
+        await this.#watch(root);
+        const relative_path = relative(root, path).split(SEP).join("/");
+        return relative_path
+          ? { watch: root, watcher: "watchfs", relative_path }
+          : { watch: root, watcher: "watchfs" };
+      }
+      case "watch-list":
+        return { roots: [...this.#watchers.keys()] };
+      case "watch-del": {
+        const root = this.#watchedRoot(cmd[1]);
+        this.#unwatch(root);
+        return { "watch-del": true, root };
+      }
+      case "watch-del-all": {
+        const roots = [...this.#watchers.keys()];
+        roots.forEach((root) => this.#unwatch(root));
+        return { roots };
+      }
+      case "clock":
+        this.#watchedRoot(cmd[1]);
+        return { clock: this.#tree.clock };
+      case "query":
+        return this.#tree.query(this.#watchedRoot(cmd[1]), cmd[2] || {});
+      case "subscribe": {
+        const root = this.#watchedRoot(cmd[1]);
+        const name = cmd[2];
+        const key = `${root}\0${name}`;
+        this.#subscriptions.get(key)?.();
+        this.#subscriptions.set(
+          key,
+          this.#tree.subscribe(root, name, cmd[3] || {}, (resp) => {
+            this.emit("subscription", { version: "watchfs", ...resp });
+          }),
+        );
+        return { subscribe: name, clock: this.#tree.clock };
+      }
+      case "unsubscribe": {
+        const key = `${this.#watchedRoot(cmd[1])}\0${cmd[2]}`;
+        const cancel = this.#subscriptions.get(key);
+        cancel?.();
+        this.#subscriptions.delete(key);
+        return { unsubscribe: cmd[2], deleted: !!cancel };
+      }
+      case "state-enter":
+      case "state-leave": {
+        const root = this.#watchedRoot(cmd[1]);
+        const { name, metadata } = typeof cmd[2] == "string"
+          ? { name: cmd[2], metadata: undefined }
+          : cmd[2];
+        if (cmd[0] == "state-enter") {
+          this.#tree.stateEnter(root, name, metadata);
+        } else {
+          this.#tree.stateLeave(root, name, metadata);
+        }
+        return { root, [cmd[0]]: name, clock: this.#tree.clock };
+      }
+    }
+    throw new Error(`the watchfs backend does not support \`${cmd[0]}\``);
+  }
+
+  // The nearest directory at or above path that holds one of rootFiles
+  async #projectRoot(path: string) {
+    for (let dir = path;; dir = resolve(dir, "..")) {
+      for (const file of rootFiles) {
+        if (await exists(join(dir, file))) {
+          return dir;
+        }
+      }
+      if (dir == resolve(dir, "..")) {
+        return path;
+      }
+    }
+  }
+
+  async #watch(root: string) {
+    if (this.#watchers.has(root)) {
+      return;
+    }
+    // Start watching before crawling so that nothing slips through
+    const watcher = Deno.watchFs(root, { recursive: true });
+    this.#watchers.set(root, watcher);
+    this.#tree.addRoot(root);
+    await this.#crawl(root, root);
+    this.#follow(root, watcher);
+  }
+
+  #unwatch(root: string) {
+    const watcher = this.#watchers.get(root);
+    this.#watchers.delete(root);
+    for (const key of this.#subscriptions.keys()) {
+      if (key.startsWith(root + "\0")) {
+        this.#subscriptions.delete(key);
+      }
+    }
+    this.#tree.deleteRoot(root);
+    try {
+      watcher?.close();
+    } catch (_) {
+      // Already closed
+    }
+  }
+
+  // The name of the path relative to root, or undefined if it's one
+  // that we don't track
+  #nameOf(root: string, path: string) {
+    const name = relative(root, path).split(SEP).join("/");
+    if (!name || name.startsWith("../") || name == ".." || isIgnored(name)) {
+      return;
+    }
+    return name;
+  }
+
+  // Emitting an error that nobody is listening for would throw
+  #report(error: unknown) {
+    if (this.listenerCount("error")) {
+      this.emit("error", error);
+    }
+  }
+
+  // Record everything beneath dir.  Like the server, we carry on past
+  // anything beneath the root that can't be read, eg for lack of
+  // permission, rather than failing the whole watch.
+  async #crawl(root: string, dir: string) {
+    const entries: Deno.DirEntry[] = [];
+    try {
+      for await (const entry of Deno.readDir(dir)) {
+        entries.push(entry);
+      }
+    } catch (e) {
+      if (dir == root) {
+        throw e;
+      }
+      this.#report(e);
+    }
+    for (const entry of entries) {
+      try {
+        await this.#sync(root, join(dir, entry.name));
+      } catch (e) {
+        this.#report(e);
+      }
+    }
+  }
+
+  // Bring what we know about the path up to date
+  async #sync(root: string, path: string) {
+    const name = this.#nameOf(root, path);
+    if (!name || !this.#watchers.has(root)) {
+      return;
+    }
+    let stat;
+    try {
+      stat = await statFile(path);
+    } catch (e) {
+      if (e instanceof Deno.errors.NotFound) {
+        if (this.#tree.get(root, name)?.exists) {
+          this.#tree.remove(root, name);
+        }
+        return;
+      }
+      throw e;
+    }
+    const previous = this.#tree.get(root, name);
+    if (
+      previous && previous.exists && previous.type == stat.type &&
+      previous.size == stat.size && previous.mtime_ms == stat.mtime_ms &&
+      previous.mode == stat.mode
+    ) {
+      // Nothing that we report on has changed
+      return;
+    }
+    this.#tree.put(root, name, stat);
+    if (stat.type == "d" && !(previous && previous.exists)) {
+      // Pick up anything that was moved in along with a new directory
+      await this.#crawl(root, path);
+    }
+  }
+
+  async #follow(root: string, watcher: Deno.FsWatcher) {
+    try {
+      for await (const event of watcher) {
+        for (const path of event.paths) {
+          try {
+            await this.#sync(root, path);
+          } catch (e) {
+            // The next event for the path tries again
+            this.#report(e);
+          }
+        }
+      }
+    } catch (_) {
+      // The watcher was closed
+    }
+  }
+
+  override end() {
+    for (const root of [...this.#watchers.keys()]) {
+      this.#unwatch(root);
+    }
+    super.end();
+  }
+}
@@ -1,96 +1,446 @@
-// deno-lint-ignore-file camelcase
-import { resolve } from "https://deno.land/std@0.108.0/path/mod.ts";
-import { v4 } from "https://deno.land/std@0.108.0/uuid/mod.ts";
-import { Client } from "./client.ts";
+import { EventEmitter } from "https://deno.land/std@0.108.0/node/events.ts";
+import { BufferOptions, Channel } from "./channel.ts";
+import type { ChangeEvent } from "./changes.ts";
+import { Client, ClientOptions, CommandOptions } from "./client.ts";
+import type {
+  CommandName,
+  CommandTuple,
+  FieldName,
+  SubscribeSpec,
+  TriggerSpec,
+} from "./commands.ts";
+import { Expression, requiredCapabilities } from "./expression.ts";
+import {
+  Project,
+  QueryOptions,
+  QueryResult,
+  sendCommand,
+  StateEvent,
+  SubscribeOptions,
+} from "./project.ts";
+import type { SettleOptions } from "./settle.ts";
+import type { TriggerBuilder } from "./trigger.ts";
+import { WatchFsClient } from "./watchfs.ts";
+
+// Where the changes come from: the watchman server, or Deno.watchFs
+export type Backend = "watchman" | "watchfs";
+
+export type WatchmanOptions = ClientOptions & {
+  // With "auto", the default, fall back to Deno.watchFs when watchman
+  // isn't installed
+  backend?: "auto" | Backend;
+};
+
+export type WatchOptions = BufferOptions & SettleOptions & {
+  // Also yield the state transitions as StateEvents
+  states?: boolean;
+};
+
+export type LogLevel = "debug" | "error";
+
+// A message from the server log
+export type LogRecord = {
+  level: LogLevel;
+  // When the message was logged, if the line could be parsed
+  time?: Date;
+  // The thread or client that logged the message
+  thread?: string;
+  message: string;
+  // The line as the server sent it
+  raw: string;
+};
+
+// Whether there's a server to talk to, or a binary to ask where it is
+function hasWatchman(options?: ClientOptions) {
+  if ((options && options.sockname) || Deno.env.get("WATCHMAN_SOCK")) {
+    return true;
+  }
+  const binary = (options && options.watchmanBinaryPath) || "watchman";
+  if (binary.includes("/")) {
+    return isFile(binary);
+  }
+  const separator = Deno.build.os == "windows" ? ";" : ":";
+  const suffix = Deno.build.os == "windows" ? ".exe" : "";
+  return (Deno.env.get("PATH") || "").split(separator).some((dir) =>
+    dir && isFile(`${dir}/${binary}${suffix}`)
+  );
+}
+
+function isFile(path: string) {
+  try {
+    return Deno.statSync(path).isFile;
+  } catch (_) {
+    return false;
+  }
+}
+
+// Split up a log line, eg: "2021-10-01T12:00:00,123: [client=42] message"
+function parseLog(raw: string, level: LogLevel): LogRecord {
+  const line = raw.replace(/\n$/, "");
+  const match =
+    /^(\d{4}-\d\d-\d\dT\d\d:\d\d:\d\d)(?:,(\d+))?: \[([^\]]*)\] ([^]*)$/
+      .exec(line);
+  if (!match) {
+    return { level, message: line, raw };
+  }
+  const [, time, fraction = "0", thread, message] = match;
+  return {
+    level,
+    time: new Date(`${time}.${fraction.padEnd(3, "0").slice(0, 3)}`),
+    thread,
+    message,
+    raw,
+  };
+}
 
 /**
  * A high-level Watchman client
+ *
+ * With the `reconnect` option, the watches and any subscriptions are
+ * restored after the connection to the server is re-established.
+ * A `reconnect` event is emitted when that starts, and a `resubscribed`
+ * event with the first update for each restored subscription; if its
+ * `is_fresh_instance` is set, changes may have been missed and the files
+ * are a full resync.  If a watch, subscription or log level can't be
+ * restored, the watch() and logs() loops that rely on it end with the
+ * error, which is also emitted as an `error` event if anyone listens.
+ *
+ * Where watchman isn't installed, the `watchfs` backend stands in for
+ * the server using Deno.watchFs.  It supports watching, queries and
+ * subscriptions, but only the expression terms that can be evaluated
+ * locally, and not triggers, logs or SCM aware queries.
  */
-export class Watchman {
+export class Watchman extends EventEmitter {
   #client: Client;
+  #backend: Backend;
 
-  #watch?: string;
-  #relativePath?: string;
+  #projects = new Set<Project>();
+  #project?: Project;
+  // The level that each logs() loop wants, and the level we last asked for
+  #logLevels = new Map<Channel<LogRecord>, LogLevel>();
+  #logLevel: LogLevel | "off" = "off";
+  // What each watch() and logs() loop needs restored after reconnecting,
+  // keyed by the function that fails the loop
+  #dependents = new Map<(error: unknown) => void, Project | "logs">();
+  // The watch() and logs() loops that are still going, and how to stop
+  // feeding each of them
+  #channels = new Map<Channel<unknown>, () => void>();
+  #onReconnect = (info: { attempt: number }) => this.#restore(info);
 
-  constructor() {
-    this.#client = new Client();
+  constructor(options?: WatchmanOptions) {
+    super();
+    const backend = (options && options.backend) || "auto";
+    this.#backend = backend == "auto"
+      ? hasWatchman(options) ? "watchman" : "watchfs"
+      : backend;
+    this.#client = this.#backend == "watchfs"
+      ? new WatchFsClient(options)
+      : new Client(options);
+    this.#client.on("reconnect", this.#onReconnect);
   }
 
   get client() {
     return this.#client;
   }
 
-  check(): Promise<Partial<{ version: string }>> {
-    return this.#client.capabilityCheck(
+  get backend() {
+    return this.#backend;
+  }
+
+  /**
+   * Check that the server supports the features we rely on, along with
+   * any needed to evaluate the given expressions.  The result says which
+   * backend is in use.
+   */
+  async check(
+    ...expressions: Expression[]
+  ): Promise<Partial<{ version: string }> & { backend: Backend }> {
+    const resp = await this.#client.capabilityCheck(
       {
         optional: [],
         required: [
-          "relative_root",
-          "cmd-watch-project",
-          "wildmatch",
-          "field-new",
+          ...new Set([
+            "relative_root",
+            "cmd-watch-project",
+            "wildmatch",
+            "field-new",
+            ...requiredCapabilities(...expressions),
+          ]),
         ],
       },
     );
+    return { ...resp, backend: this.#backend };
   }
 
-  command(...args: Parameters<Client["command"]>[0]) {
-    return new Promise<never>((resolve, reject) => {
-      this.#client.command(args, (error, resp) => {
-        if (error) return reject(error);
-        resolve(resp);
-      });
-    });
+  command<C extends CommandName>(...args: CommandTuple<C>) {
+    return sendCommand(this.#client, args);
   }
 
+  /**
+   * Watch the project containing root.  The returned Project can query
+   * and subscribe to that project independently of any others.
+   */
   async watchProject(root: string) {
-    try {
-      const resp = await this.command("watch-project", root);
-
-      const { watch, warning: _warning, relative_path } = resp;
-      this.#watch = watch;
-      this.#relativePath = relative_path;
-    } catch (error) {
-      console.error(error);
-      return false;
+    const project = await this.#watchProject(root);
+    this.#project = project;
+    return project;
+  }
+
+  async #watchProject(root: string) {
+    await this.#client.capabilityCheck({ required: ["cmd-watch-project"] });
+    const resp = await this.command("watch-project", root);
+    const project = new Project(this.#client, this, root, resp, (project) => {
+      this.#projects.delete(project);
+      if (this.#project === project) {
+        this.#project = undefined;
+      }
+      return [...this.#projects].some(({ watch }) => watch == project.watch);
+    });
+    this.#projects.add(project);
+    return project;
+  }
+
+  // The projects that are currently being watched
+  get projects() {
+    return [...this.#projects];
+  }
+
+  // The most recently watched project, which the methods below act on
+  #current(): Project {
+    if (!this.#project) {
+      throw new Error("watchProject must be called first");
     }
-    return true;
+    return this.#project;
+  }
+
+  query<F extends FieldName = "name">(
+    options?: QueryOptions<F>,
+  ): Promise<QueryResult<F>> {
+    return this.#current().query(options);
   }
 
-  async subscribe<T extends { root: string; files: string[] }>(
-    sub: { [key: string]: unknown },
+  subscribe<T extends { root: string; files: string[] }>(
+    sub: SubscribeSpec,
     cb: (resp: T) => void,
+    options?: SubscribeOptions,
   ) {
-    const uid = v4.generate();
-    if (!sub.since) {
-      const { clock } = await this.command("clock", this.#watch);
-      sub = { since: clock, ...sub };
+    return this.#current().subscribe(sub, cb, options);
+  }
+
+  subscribeChanges(
+    sub: SubscribeSpec,
+    cb: (event: ChangeEvent) => void,
+    options?: SubscribeOptions,
+  ) {
+    return this.#current().subscribeChanges(sub, cb, options);
+  }
+
+  stateEnter(name: string, metadata?: unknown, options?: CommandOptions) {
+    return this.#current().stateEnter(name, metadata, options);
+  }
+
+  stateLeave(name: string, metadata?: unknown, options?: CommandOptions) {
+    return this.#current().stateLeave(name, metadata, options);
+  }
+
+  withState<R>(name: string, fn: () => R | Promise<R>, metadata?: unknown) {
+    return this.#current().withState(name, fn, metadata);
+  }
+
+  trigger(spec: TriggerSpec | TriggerBuilder, options?: CommandOptions) {
+    return this.#current().trigger(spec, options);
+  }
+
+  triggerList(options?: CommandOptions) {
+    return this.#current().triggerList(options);
+  }
+
+  triggerDel(name: string, options?: CommandOptions) {
+    return this.#current().triggerDel(name, options);
+  }
+
+  // Re-establish the watches and subscriptions on a new connection
+  async #restore(info: { attempt: number }) {
+    this.emit("reconnect", info);
+    const restores: [Project | "logs", () => Promise<void>][] = [
+      ...this.#projects,
+    ].map((project) => [project, () => project.restore()]);
+    if (this.#logLevel != "off") {
+      restores.push(["logs", () => this.#updateLogLevel(true)]);
+    }
+    for (const [target, restore] of restores) {
+      try {
+        await restore();
+      } catch (error) {
+        for (const [fail, dependency] of this.#dependents) {
+          if (dependency === target) {
+            fail(error);
+          }
+        }
+        if (this.listenerCount("error")) {
+          this.emit("error", error);
+        }
+      }
     }
-    const { subscribe } = await this.command(
-      "subscribe",
-      this.#watch,
-      uid,
-      sub,
+  }
+
+  /**
+   * Watch the project containing root and iterate over the changes that
+   * match the subscription.  Breaking out of the loop unsubscribes, and
+   * losing the connection to the server ends the loop with an error.
+   */
+  watch<T extends { root: string; files: string[] }>(
+    root: string,
+    sub?: SubscribeSpec,
+    options?: WatchOptions & { states?: false },
+  ): AsyncIterableIterator<T>;
+  watch<T extends { root: string; files: string[] }>(
+    root: string,
+    sub: SubscribeSpec,
+    options: WatchOptions & { states: true },
+  ): AsyncIterableIterator<T | StateEvent>;
+  watch<T extends { root: string; files: string[] }>(
+    root: string,
+    sub: SubscribeSpec = {},
+    options: WatchOptions = {},
+  ): AsyncIterableIterator<T | StateEvent> {
+    const project = this.#watchProject(root);
+    const subscribed = project.then((project) =>
+      project.subscribe<T>(
+        sub,
+        (resp) => channel.push(resp),
+        {
+          onState: options.states ? (event) => channel.push(event) : undefined,
+          settle: options.settle,
+          maxWait: options.maxWait,
+        },
+      )
     );
+    const { channel, fail, dependOn } = this.#channel<T | StateEvent>(
+      options,
+      async () => {
+        await subscribed;
+        await (await project).close();
+      },
+    );
+    subscribed.then(() => project).then(dependOn, fail);
+    return channel;
+  }
 
-    this.#client.on("subscription", (resp) => {
-      if (!resp || resp.subscription != uid) return;
-      const { files } = resp;
-      if (!files || !files.length) return;
-
-      cb({
-        ...resp,
-        root: this.#relativePath
-          ? resolve(resp.root, this.#relativePath)
-          : resp.root,
-      });
-    });
+  /**
+   * Turn on server logging at the given level and iterate over the log
+   * messages.  Breaking out of the loop turns logging off again, unless
+   * another loop still wants it.
+   */
+  logs(
+    level: LogLevel,
+    options: BufferOptions = {},
+  ): AsyncIterableIterator<LogRecord> {
+    const onLog = (resp: { log: string; level?: LogLevel }) => {
+      // Newer servers tell us the level of each message
+      if (resp.level == "debug" && level == "error") return;
+      channel.push(parseLog(resp.log, resp.level || level));
+    };
+    const { channel, fail, dependOn } = this.#channel<LogRecord>(
+      options,
+      () => this.#updateLogLevel(),
+      () => {
+        this.#client.off("log", onLog);
+        this.#logLevels.delete(channel);
+      },
+    );
+    dependOn("logs");
+    this.#client.on("log", onLog);
+    this.#logLevels.set(channel, level);
+    this.#updateLogLevel().catch(fail);
+    return channel;
+  }
+
+  // Ask the server for the most verbose level that any of the logs()
+  // loops want, if that has changed
+  async #updateLogLevel(force = false) {
+    const levels = [...this.#logLevels.values()];
+    const level = levels.includes("debug")
+      ? "debug"
+      : levels.length
+      ? "error"
+      : "off";
+    if (level == "off" && !this.#client.socket) {
+      // The level went with the connection, so there's nothing to undo
+      this.#logLevel = level;
+      return;
+    }
+    if (level != this.#logLevel || force) {
+      this.#logLevel = level;
+      await this.command("log-level", level);
+    }
+  }
+
+  // A channel that fails when the connection to the server is lost for
+  // good, running onReturn when the consumer stops.  detach stops
+  // feeding it, however it ends.
+  #channel<T>(
+    options: BufferOptions,
+    onReturn: () => Promise<void>,
+    detach = () => {},
+  ) {
+    const client = this.#client;
+    const onEnd = () => fail(new Error("The watchman connection was closed"));
+    const onError = (error: Error) => {
+      if (client.willReconnect) {
+        // Connection failures are retried rather than fatal
+        return;
+      }
+      fail(error);
+    };
+    let listening = true;
+    const stopListening = () => {
+      listening = false;
+      client.off("end", onEnd);
+      client.off("error", onError);
+      this.#dependents.delete(fail);
+      this.#channels.delete(channel as Channel<unknown>);
+      detach();
+    };
+    // Fail the channel if what it relies on can't be restored
+    const dependOn = (dependency: Project | "logs") => {
+      if (listening) {
+        this.#dependents.set(fail, dependency);
+      }
+    };
+    const fail = (error: unknown) => {
+      stopListening();
+      channel.fail(error);
+    };
 
-    return () => this.command("unsubscribe", this.#watch, subscribe);
+    const channel = new Channel<T>(options, () => {
+      stopListening();
+      return onReturn();
+    });
+    client.on("end", onEnd);
+    client.on("error", onError);
+    this.#channels.set(channel as Channel<unknown>, stopListening);
+    return { channel, fail, dependOn };
   }
 
+  /**
+   * Close the connection.  The watch() and logs() loops finish, and the
+   * subscriptions stop delivering updates.
+   */
   end() {
-    this.#client.removeAllListeners();
+    for (const [channel, stopListening] of this.#channels) {
+      stopListening();
+      channel.close();
+    }
+    for (const project of this.#projects) {
+      project.forget();
+    }
+    this.#projects.clear();
+    this.#project = undefined;
+    this.#logLevels.clear();
+    this.#logLevel = "off";
+    this.#dependents.clear();
+    this.#client.off("reconnect", this.#onReconnect);
     this.#client.end();
   }
 }